@@ -0,0 +1,51 @@
+#!/usr/bin/env node
+/*
+ * Copyright © 2019 Atomist, Inc.
+ *
+ * See LICENSE file.
+ */
+
+process.env.SUPPRESS_NO_CONFIG_WARNING = "true";
+
+import * as stringify from "json-stringify-safe";
+import {
+    describeConfiguration,
+    loadConfigurationWithProvenance,
+} from "../lib/configuration";
+
+/* tslint:disable:no-console */
+
+main()
+    .catch((err: Error) => {
+        console.error(`Unhandled exception: ${err.message}`);
+        process.exit(101);
+    });
+
+/**
+ * Print the effective configuration of the local automation client
+ * with the source of every value and secrets hidden, as JSON when
+ * called with --json.  This method will not return.
+ */
+async function main(): Promise<void> {
+    const what = process.argv[2];
+    const json = process.argv.slice(3).includes("--json");
+    if (what !== "configuration") {
+        console.error(`[ERROR] Usage: atm-describe configuration [--json]`);
+        process.exit(3);
+    }
+
+    try {
+        const { configuration, provenance } = await loadConfigurationWithProvenance();
+        const descriptions = describeConfiguration(configuration, provenance);
+        if (json) {
+            console.log(stringify(descriptions, undefined, 2));
+        } else {
+            const width = Math.max(...descriptions.map(d => d.path.length));
+            descriptions.forEach(d => console.log(`${d.path.padEnd(width)}  ${stringify(d.value)}  [${d.source}]`));
+        }
+        process.exit(0);
+    } catch (e) {
+        console.error(`[ERROR] Failed to describe configuration: ${e.message}`);
+        process.exit(1);
+    }
+}
@@ -0,0 +1,84 @@
+#!/usr/bin/env node
+/*
+ * Copyright © 2019 Atomist, Inc.
+ *
+ * See LICENSE file.
+ */
+
+process.env.SUPPRESS_NO_CONFIG_WARNING = "true";
+
+import * as stringify from "json-stringify-safe";
+import { automationClient } from "../lib/automationClient";
+import { loadConfiguration } from "../lib/configuration";
+import {
+    FileEventStore,
+    fileEventStoreOptions,
+} from "../lib/internal/event/FileEventStore";
+import {
+    ConsoleRequestProcessor,
+    findCommand,
+    findEvent,
+    replayCommand,
+    replayEvent,
+} from "../lib/internal/event/replay";
+import { Secret } from "../lib/internal/transport/RequestProcessor";
+import { enableDefaultScanning } from "../lib/scan";
+
+/* tslint:disable:no-console */
+
+main()
+    .catch((err: Error) => {
+        console.error(`Unhandled exception: ${err.message}`);
+        process.exit(101);
+    });
+
+/**
+ * Replay an event or command recorded by the file-backed event store
+ * against the local automation client, printing all messages to the
+ * console.  Secrets can be provided as additional uri=value arguments.
+ * This method will not return.
+ */
+async function main(): Promise<void> {
+    const kind = process.argv[2];
+    const id = process.argv[3];
+    if ((kind !== "event" && kind !== "command") || !id) {
+        console.error(`[ERROR] Usage: atm-replay <event|command> <id> [secret-uri=value ...]`);
+        process.exit(3);
+    }
+    const secrets: Secret[] = process.argv.slice(4).map(a => {
+        const i = a.indexOf("=");
+        return { uri: a.slice(0, i), value: a.slice(i + 1) };
+    });
+
+    try {
+        const configuration = await loadConfiguration();
+        enableDefaultScanning(configuration);
+        const node = automationClient(configuration);
+        // Don't compact the logs as the client recording them might be running
+        const store = new FileEventStore({ ...fileEventStoreOptions(configuration), readOnly: true });
+        const processor = new ConsoleRequestProcessor(node.automations, configuration, configuration.listeners);
+
+        if (kind === "event") {
+            const event = findEvent(id, store);
+            if (!event) {
+                console.error(`[ERROR] Unable to find recorded event ${id}`);
+                process.exit(4);
+            }
+            const results = await replayEvent(event, processor, { secrets });
+            console.log(`Event replayed: ${stringify(results, undefined, 2)}`);
+            process.exit(results.some(r => r.code !== 0) ? 1 : 0);
+        } else {
+            const command = findCommand(id, store);
+            if (!command) {
+                console.error(`[ERROR] Unable to find recorded command ${id}`);
+                process.exit(4);
+            }
+            const result = await replayCommand(command, processor, { secrets });
+            console.log(`Command replayed: ${stringify(result, undefined, 2)}`);
+            process.exit(result.code !== 0 ? 1 : 0);
+        }
+    } catch (e) {
+        console.error(`[ERROR] Unhandled exception: ${e.message}`);
+        process.exit(101);
+    }
+}
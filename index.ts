@@ -29,6 +29,11 @@ export {
     configurationValue,
     DEFAULT_REDACTION_PATTERNS,
 } from "./lib/configuration";
+export {
+    ConfigurationChange,
+    ConfigurationChangeListener,
+    onConfigurationChange,
+} from "./lib/configurationReload";
 export {
     MappedParameter,
     MappedParameters,
@@ -31,6 +31,12 @@ export interface HandlerContext extends Contextual {
      */
     lifecycle?: HandlerLifecycle;
 
+    /**
+     * Signals that the invocation got cancelled, e.g. because it timed out.
+     * Long running handlers should stop their work once cancelled.
+     */
+    cancellation?: CancellationSignal;
+
 }
 
 /**
@@ -70,3 +76,27 @@ export interface HandlerLifecycle {
      */
     dispose(): Promise<void>;
 }
+
+/**
+ * Signal that the invocation of a handler got cancelled
+ */
+export interface CancellationSignal {
+
+    /**
+     * True if the invocation got cancelled
+     */
+    readonly cancelled: boolean;
+
+    /**
+     * Reason for the cancellation
+     */
+    readonly reason?: string;
+
+    /**
+     * Register a callback that gets invoked when the invocation gets cancelled.
+     * Invokes the callback right away if the invocation is already cancelled.
+     * @param {(reason: string) => void} callback
+     * @returns {() => void} function to unregister the callback
+     */
+    onCancel(callback: (reason: string) => void): () => void;
+}
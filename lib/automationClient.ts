@@ -1,16 +1,26 @@
 import * as cluster from "cluster";
 import * as stringify from "json-stringify-safe";
 import { Configuration } from "./configuration";
+import {
+    ConfigurationReloader,
+    onConfigurationChange,
+} from "./configurationReload";
+import { setEventStore } from "./globals";
 import { HandleCommand } from "./HandleCommand";
 import { HandleEvent } from "./HandleEvent";
 import { HandlerResult } from "./HandlerResult";
 import { registerApplicationEvents } from "./internal/env/applicationEvent";
+import {
+    FileEventStore,
+    fileEventStoreOptions,
+} from "./internal/event/FileEventStore";
 import { ClusterMasterRequestProcessor } from "./internal/transport/cluster/ClusterMasterRequestProcessor";
 import {
     ClusterWorkerRequestProcessor,
     startWorker,
 } from "./internal/transport/cluster/ClusterWorkerRequestProcessor";
 import { EventStoringAutomationEventListener } from "./internal/transport/EventStoringAutomationEventListener";
+import { ExecutionTraceAutomationEventListener } from "./internal/transport/ExecutionTraceAutomationEventListener";
 import { ExpressRequestProcessor } from "./internal/transport/express/ExpressRequestProcessor";
 import { ExpressServer } from "./internal/transport/express/ExpressServer";
 import { MetricEnabledAutomationEventListener } from "./internal/transport/MetricEnabledAutomationEventListener";
@@ -26,6 +36,10 @@ import {
 import { DefaultWebSocketRequestProcessor } from "./internal/transport/websocket/DefaultWebSocketRequestProcessor";
 import { prepareRegistration } from "./internal/transport/websocket/payloads";
 import { WebSocketClient } from "./internal/transport/websocket/WebSocketClient";
+import {
+    QueuingWebSocketLifecycle,
+    webSocketQueueOptions,
+} from "./internal/transport/websocket/WebSocketLifecycle";
 import { WebSocketRequestProcessor } from "./internal/transport/websocket/WebSocketRequestProcessor";
 import { obfuscateJson } from "./internal/util/string";
 import { AutomationServer } from "./server/AutomationServer";
@@ -36,8 +50,12 @@ import {
     configureLogging,
     logger,
 } from "./util/logger";
-import { addRedaction } from "./util/redact";
+import {
+    addRedaction,
+    removeRedaction,
+} from "./util/redact";
 import { StatsdAutomationEventListener } from "./util/statsd";
+import { TracingAutomationEventListener } from "./util/tracing";
 
 export class AutomationClient implements RequestProcessor {
 
@@ -47,9 +65,12 @@ export class AutomationClient implements RequestProcessor {
     public webSocketHandler: RequestProcessor;
     public httpHandler: RequestProcessor;
 
+    private redactions: RegExp[] = [];
+
     private defaultListeners = [
         new MetricEnabledAutomationEventListener(),
         new EventStoringAutomationEventListener(),
+        new ExecutionTraceAutomationEventListener(),
         new StartupMessageAutomationEventListener(),
         new StartupTimeMessageUatomationEventListener(),
     ];
@@ -101,7 +122,11 @@ export class AutomationClient implements RequestProcessor {
     public run(): Promise<void> {
         this.configureRedactions();
         configureLogging(clientLoggingConfiguration(this.configuration));
+        this.configureTracing();
         this.configureStatsd();
+        this.configureEventStore();
+        this.configureWebSocketQueue();
+        this.configureReload();
 
         const clientSig = `${this.configuration.name}:${this.configuration.version}`;
         const clientConf = stringify(this.configuration, obfuscateJson);
@@ -148,6 +173,9 @@ export class AutomationClient implements RequestProcessor {
     }
 
     private configureRedactions() {
+        // Replace the patterns of the previous configuration when reloading it
+        this.redactions.forEach(removeRedaction);
+        this.redactions = [];
         if (!!this.configuration.redact && !!this.configuration.redact.patterns) {
             this.configuration.redact.patterns.forEach(p => {
                 let regexp: RegExp;
@@ -157,22 +185,68 @@ export class AutomationClient implements RequestProcessor {
                     regexp = p.regexp;
                 }
                 addRedaction(regexp, p.replacement);
+                this.redactions.push(regexp);
             });
         }
     }
 
+    private configureReload(): void {
+        if (!!this.configuration.reload && this.configuration.reload.enabled === true) {
+            onConfigurationChange(change => {
+                if (change.keys.some(k => k.startsWith("logging."))) {
+                    configureLogging(clientLoggingConfiguration(this.configuration));
+                }
+                if (change.keys.some(k => k.startsWith("redact."))) {
+                    this.configureRedactions();
+                }
+                if (change.keys.some(k => k.startsWith("http.rateLimit")) && !!this.httpServer) {
+                    this.httpServer.updateRateLimits();
+                }
+            });
+            new ConfigurationReloader(this.configuration, {
+                interval: this.configuration.reload.interval,
+                keys: this.configuration.reload.keys,
+            }).watch();
+        }
+    }
+
     private raiseStartupEvent() {
         return [...this.defaultListeners, ...this.configuration.listeners].filter(l => l.startupSuccessful)
             .map(l => () => l.startupSuccessful(this))
             .reduce((p, f) => p.then(f), Promise.resolve());
     }
 
+    private configureTracing(): void {
+        if (!!this.configuration.tracing && this.configuration.tracing.enabled === true) {
+            this.defaultListeners.push(new TracingAutomationEventListener(this.configuration.tracing.exporter));
+        }
+    }
+
     private configureStatsd() {
         if (this.configuration.statsd.enabled === true) {
             this.defaultListeners.push(new StatsdAutomationEventListener(this.configuration));
         }
     }
 
+    private configureEventStore(): void {
+        // Only the master writes to the log files; cluster workers keep their entries in memory
+        if (!!this.configuration.eventStore && !!this.configuration.eventStore.file
+            && this.configuration.eventStore.file.enabled === true && cluster.isMaster) {
+            const options = fileEventStoreOptions(this.configuration);
+            logger.debug(`Storing events, commands and messages in '${options.directory}'`);
+            setEventStore(new FileEventStore(options));
+        }
+    }
+
+    private configureWebSocketQueue(): void {
+        // Only the master owns the WebSocket; cluster workers hand their messages to the master
+        const lifecycle = this.configuration.ws.lifecycle;
+        if (!!this.configuration.ws.queue && lifecycle instanceof QueuingWebSocketLifecycle && cluster.isMaster) {
+            this.configuration.ws.lifecycle =
+                new QueuingWebSocketLifecycle(webSocketQueueOptions(this.configuration));
+        }
+    }
+
     private setupWebSocketClusterRequestHandler(): ClusterMasterRequestProcessor {
         return new ClusterMasterRequestProcessor(this.automations, this.configuration,
             [...this.defaultListeners, ...this.configuration.listeners],
@@ -27,12 +27,29 @@ import * as _ from "lodash";
 import * as os from "os";
 import * as p from "path";
 import * as semver from "semver";
+import {
+    UserConfigSchema,
+    validateConfigurationSchema,
+} from "./configurationSchema";
 import { automationClientInstance } from "./globals";
 import { HandleCommand } from "./HandleCommand";
 import { HandleEvent } from "./HandleEvent";
+import { ChainedSecretResolver } from "./internal/env/ChainedSecretResolver";
+import { NodeConfigSecretResolver } from "./internal/env/NodeConfigSecretResolver";
 import { ExpressServerOptions } from "./internal/transport/express/ExpressServer";
-import { QueuingWebSocketLifecycle } from "./internal/transport/websocket/WebSocketLifecycle";
+import { ReconnectOptions } from "./internal/transport/websocket/reconnect";
+import {
+    OverflowPolicy,
+    QueuingWebSocketLifecycle,
+    WebSocketLifecycle,
+} from "./internal/transport/websocket/WebSocketLifecycle";
 import { config } from "./internal/util/config";
+import {
+    CodeKeys,
+    configurationData,
+    leafPaths,
+    ProvenanceRecorder,
+} from "./internal/util/configurationData";
 import {
     guid,
     obfuscateJson,
@@ -55,6 +72,11 @@ import {
 import { Maker } from "./util/constructionUtils";
 import { logger } from "./util/logger";
 import { loadHostPackageJson } from "./util/packageJson";
+import {
+    addRedaction,
+    redact,
+} from "./util/redact";
+import { SpanExporter } from "./util/tracing";
 
 /**
  * Customize the express server configuration: For example to add custom routes
@@ -177,6 +199,29 @@ export interface AutomationOptions extends AnyOptions {
         compress?: boolean;
         /** timeout in milliseconds */
         timeout?: number;
+        /** backoff and circuit breaking of registration and connection retries */
+        reconnect?: ReconnectOptions;
+        /** manages the WebSocket and the messages sent over it */
+        lifecycle?: WebSocketLifecycle;
+        /** bounds and persistence of messages queued while disconnected */
+        queue?: {
+            /** maximum number of queued messages, default is unlimited */
+            maxSize?: number;
+            /** maximum age in milliseconds of queued messages, default is unlimited */
+            maxAge?: number;
+            /** policy for messages sent while the queue is full, default is dropOldest */
+            overflow?: OverflowPolicy;
+            /**
+             * Spool queued messages to a file so that they survive
+             * restarts
+             */
+            spool?: {
+                /** Whether to spool queued messages, default is false */
+                enabled?: boolean;
+                /** Directory of the spool file, defaults to ~/.atomist/spool */
+                directory?: string;
+            };
+        };
     };
     graphql?: {
         client?: {
@@ -226,6 +271,17 @@ export interface AutomationServerOptions extends AutomationOptions {
         enabled?: boolean;
         workers?: number;
         maxConcurrentPerWorker?: number;
+        /**
+         * Replace workers once they exceed one of these thresholds.
+         * Workers finish their in-flight invocations before they are
+         * replaced.
+         */
+        recycle?: {
+            /** Maximum resident set size of a worker in megabytes */
+            maxRss?: number;
+            /** Maximum number of invocations handled by a worker */
+            maxInvocations?: number;
+        };
     };
     /** Logging configuration */
     logging?: {
@@ -284,8 +340,76 @@ export interface AutomationServerOptions extends AutomationOptions {
          */
         port?: number;
     };
-    /** Register a custom secret resolver */
-    secretResolver?: SecretResolver;
+    /** Event store configuration */
+    eventStore?: {
+        /**
+         * Persist incoming events, commands and sent messages to
+         * append-only log files so that they survive restarts.  If
+         * not enabled, only the most recent entries are kept in
+         * memory.
+         */
+        file?: {
+            /** Whether to use the file-backed event store, default is false */
+            enabled?: boolean;
+            /**
+             * Directory to write the logs into, defaults to
+             * ~/.atomist/events/<application>
+             */
+            directory?: string;
+            /** Maximum number of entries of each kind to retain, default is 1000 */
+            maxEntries?: number;
+            /** Maximum age in milliseconds of retained entries, default is unlimited */
+            maxAge?: number;
+        };
+    };
+    /** Tracing configuration */
+    tracing?: {
+        /**
+         * Record a span for every command and event handler invocation
+         * and its HTTP requests, GraphQL operations and spawned
+         * processes, default is false
+         */
+        enabled?: boolean;
+        /** Exporter to send finished spans to, defaults to logging them */
+        exporter?: SpanExporter;
+    };
+    /**
+     * Maximum number of concurrent invocations per handler name.
+     * Overrides limits declared on the handlers.  Further invocations
+     * are queued until a running invocation finishes.
+     */
+    concurrency?: { [handler: string]: number };
+    /** Handler invocation timeouts in milliseconds */
+    timeout?: {
+        /** Timeout for all handler invocations, default is no timeout */
+        default?: number;
+        /** Timeouts per handler name, overriding timeouts declared on the handlers */
+        handlers?: { [handler: string]: number };
+    };
+    /**
+     * How to treat unknown and mistyped keys found when validating
+     * the configuration against its schema: log them ("warn"), refuse
+     * to start ("fail") or skip the validation ("off"), default is
+     * "warn"
+     */
+    validation?: "warn" | "fail" | "off";
+    /**
+     * Reload reloadable keys of the configuration when the files it
+     * is loaded from change, see ReloadableConfigurationKeys
+     */
+    reload?: {
+        /** Default is false */
+        enabled?: boolean;
+        /** Milliseconds between checks of the files for changes, default is 2000 */
+        interval?: number;
+        /** Paths of further keys to reload, e.g., sdm.goal.timeout */
+        keys?: string[];
+    };
+    /**
+     * Register a custom secret resolver used to inject @Secret values,
+     * or several resolvers to try in order with resolved secrets cached
+     */
+    secretResolver?: SecretResolver | SecretResolver[];
     /** Register a custom AutomationMetadataProcessor */
     metadataProcessor?: AutomationMetadataProcessor;
 }
@@ -534,6 +658,10 @@ export function deepMergeConfigs(obj: Configuration, ...sources: Configuration[]
  * a version range _after_ all the configurations with version ranges.
  * Note that only values from the first per-module match are used.
  *
+ * The entire user configuration, including the configuration of
+ * other modules, is validated against the user configuration schema
+ * according to its `validation` setting.
+ *
  * @param userConfig the user's configuration, which may include per-module configuration
  * @param name automation client package name to load as module config if it exists
  * @param version automation client package version to load as module config if
@@ -544,6 +672,7 @@ export function resolveModuleConfig(userConfig: UserConfig, name?: string, versi
     const cfg: AutomationServerOptions = {};
     if (userConfig) {
         cfgLog(userConfigPath());
+        validateUserConfig(userConfig);
         const uc = _.cloneDeep(userConfig);
         let mc: Partial<ModuleOptions> = {};
         if (userConfig.modules) {
@@ -573,6 +702,28 @@ export function resolveModuleConfig(userConfig: UserConfig, name?: string, versi
     return cfg;
 }
 
+/**
+ * Validate the user configuration, including all of its per-module
+ * configurations, against the user configuration schema.  Invalid
+ * values are logged unless its `validation` is "fail", in which case
+ * an error is thrown, or "off", in which case nothing is checked.
+ *
+ * @param userConfig the user's configuration
+ */
+function validateUserConfig(userConfig: UserConfig): void {
+    if (userConfig.validation === "off") {
+        return;
+    }
+    const errors = validateConfigurationSchema(userConfig, UserConfigSchema).map(e => `'${e.path}': ${e.message}`);
+    if (errors.length < 1) {
+        return;
+    }
+    if (userConfig.validation === "fail") {
+        throw new Error(`User configuration ${userConfigPath()} is not correct: ${errors.join("; ")}`);
+    }
+    errors.forEach(e => logger.warn(`Invalid user configuration value in ${userConfigPath()} ${e}`));
+}
+
 /**
  * Try to read user config, overriding its values with a per-module
  * configuration that matches this automation.
@@ -622,6 +773,25 @@ export function loadAutomationConfig(configPath?: string): Configuration | undef
     return undefined;
 }
 
+/**
+ * Return the files the configuration is loaded from that exist: the
+ * automation configuration, or all index.js files if there is none,
+ * the user configuration and the ATOMIST_CONFIG_PATH file.
+ *
+ * @param configPath location of automation configuration
+ * @return paths of configuration files
+ */
+export function configurationFiles(configPath?: string): string[] {
+    let files = configPath ? [configPath] :
+        glob.sync(`${appRoot.path}/**/atomist.config.js`, { ignore: ["**/{.git,node_modules}/**"] });
+    if (files.length === 0) {
+        files = glob.sync(`${appRoot.path}/**/index.js`, { ignore: ["**/{.git,node_modules}/**"] });
+    }
+    return [...files, userConfigPath(), process.env.ATOMIST_CONFIG_PATH]
+        .filter(f => !!f && fs.existsSync(f))
+        .map(f => p.resolve(f));
+}
+
 /**
  * Load the automation configuration from the configuration objects
  * exported and merged by all index.js files in the automation client.
@@ -805,7 +975,7 @@ async function resolvePlaceholdersRecursively(obj: any, visited: any[], replacer
     }
 }
 
-const PlaceholderExpression = /\$\{([.a-zA-Z_-]+)([.:0-9a-zA-Z-_ \" ]+)*\}/g;
+const PlaceholderExpression = /\$\{(?!(?:secret|env|file):)([.a-zA-Z_-]+)([.:0-9a-zA-Z-_ \" ]+)*\}/g;
 
 async function resolvePlaceholder(value: string): Promise<string> {
     if (!PlaceholderExpression.test(value)) {
@@ -831,6 +1001,66 @@ async function resolvePlaceholder(value: string): Promise<string> {
     return currentValue;
 }
 
+/**
+ * Resolve secret references in string configuration values anywhere in
+ * the configuration.  References should be of form ${secret:key} to
+ * resolve the key with the configured secretResolver, ${env:NAME} to use
+ * the value of an environment variable or ${file:/path} to use the
+ * content of a file without trailing line break.  Values of secret and
+ * file references are redacted from logs and messages; environment
+ * variables often hold values that aren't secret, e.g., ports.
+ */
+export async function resolveSecretReferences(cfg: Configuration): Promise<void> {
+    const resolver = Array.isArray(cfg.secretResolver) ? new ChainedSecretResolver(cfg.secretResolver) :
+        cfg.secretResolver || new NodeConfigSecretResolver();
+    await resolvePlaceholders(cfg, async value => {
+        const references = _.uniq(value.match(SecretReferenceExpression) || []);
+        let currentValue = value;
+        for (const reference of references) {
+            const secret = await resolveSecretReference(reference, resolver);
+            if (!reference.startsWith("${env:") && !redactedSecrets.has(secret)) {
+                redactedSecrets.add(secret);
+                addRedaction(new RegExp(_.escapeRegExp(secret), "g"));
+            }
+            currentValue = currentValue.split(reference).join(secret);
+        }
+        return currentValue;
+    });
+}
+
+/**
+ * Secrets already redacted, so that resolving the secret references
+ * again, e.g., when reloading the configuration, does not add their
+ * redactions again.
+ */
+const redactedSecrets = new Set<string>();
+
+const SecretReferenceExpression = /\$\{(secret|env|file):([^}]+)\}/g;
+
+async function resolveSecretReference(reference: string, resolver: SecretResolver): Promise<string> {
+    const [, type, key] = new RegExp(SecretReferenceExpression.source).exec(reference);
+    let value: string;
+    switch (type) {
+        case "secret":
+            value = await resolver.resolve(key);
+            break;
+        case "env":
+            value = process.env[key];
+            break;
+        case "file":
+            try {
+                value = (await fs.readFile(key, "utf8")).replace(/\r?\n$/, "");
+            } catch (e) {
+                throw new Error(`Failed to resolve secret reference '${reference}': ${e.message}`);
+            }
+            break;
+    }
+    if (!value) {
+        throw new Error(`Failed to resolve secret reference '${reference}'`);
+    }
+    return value;
+}
+
 /**
  * Invoke postProcessors on the provided configuration.
  */
@@ -871,6 +1101,14 @@ export function validateConfiguration(cfg: Configuration): void {
         errors.push("you cannot specify both 'workspaceIds' and 'groups' in your configuration, you must set one " +
             "to an empty array");
     }
+    if (cfg.validation !== "off") {
+        const schemaErrors = validateConfigurationSchema(cfg).map(e => `'${e.path}': ${e.message}`);
+        if (cfg.validation === "fail") {
+            errors.push(...schemaErrors);
+        } else {
+            schemaErrors.forEach(e => logger.warn(`Invalid configuration value ${e}`));
+        }
+    }
     if (errors.length > 0) {
         const msg = `Configuration (${stringify(cfg, obfuscateJson)}) is not correct: ${errors.join("; ")}`;
         throw new Error(msg);
@@ -905,7 +1143,10 @@ export function validateConfiguration(cfg: Configuration): void {
  *
  * Placeholder of the form `${ENV_VARIABLE}` in string configuration
  * values will get resolved against the environment. The resolution
- * happens at the very end when all configs have been merged.
+ * happens at the very end when all configs have been merged.  Secret
+ * references of the form `${secret:key}`, `${env:NAME}` and
+ * `${file:/path}` get resolved after that, before the configuration is
+ * validated.
  *
  * The configuration exported from the index.js (or atomist.config.js) is modified
  * to contain the final configuration values and returned from this
@@ -916,19 +1157,48 @@ export function validateConfiguration(cfg: Configuration): void {
  * @return merged configuration object
  */
 export function loadConfiguration(cfgPath?: string): Promise<Configuration> {
+    return loadConfigurationWithProvenance(cfgPath).then(result => result.configuration);
+}
+
+/**
+ * Source of each leaf value of the configuration keyed by its path,
+ * e.g., { "http.port": "PORT" }
+ */
+export interface ConfigurationProvenance {
+    [path: string]: string;
+}
+
+/**
+ * Load and merge the configuration like loadConfiguration, recording
+ * the source each leaf value came from.
+ *
+ * @param cfgPath path to file exporting the configuration object, if
+ *                not provided the package is searched for one
+ * @return merged configuration object and the source of its values
+ */
+export function loadConfigurationWithProvenance(cfgPath?: string): Promise<{ configuration: Configuration, provenance: ConfigurationProvenance }> {
     // Register the logger globally so that downstream modules can see it
     (global as any).__logger = logger;
 
+    const recorder = new ProvenanceRecorder();
     let cfg: Configuration;
     try {
         const defCfg = defaultConfiguration();
-        const autoCfg = loadAutomationConfig(cfgPath) || loadIndexConfig();
+        const automationCfg = loadAutomationConfig(cfgPath);
+        const autoCfg = automationCfg || loadIndexConfig();
         const userCfg = loadUserConfiguration(defCfg.name, defCfg.version);
         const atmPathCfg = loadAtomistConfigPath();
         const atmCfg = loadAtomistConfig();
-        cfg = mergeConfigs({}, defCfg, autoCfg, userCfg, atmPathCfg, atmCfg);
+        cfg = {};
+        recorder.record(mergeConfigs(cfg, defCfg), defaultConfigurationSource);
+        recorder.record(mergeConfigs(cfg, autoCfg), automationCfg ? cfgPath || "atomist.config.js" : "index.js");
+        recorder.record(mergeConfigs(cfg, userCfg), userConfigPath());
+        recorder.record(mergeConfigs(cfg, atmPathCfg), "ATOMIST_CONFIG_PATH");
+        recorder.record(mergeConfigs(cfg, atmCfg), "ATOMIST_CONFIG");
         resolveWorkspaceIds(cfg);
+        recorder.record(cfg, process.env.ATOMIST_WORKSPACES ? "ATOMIST_WORKSPACES" : "config");
         resolvePort(cfg);
+        recorder.record(cfg, "PORT");
     } catch (e) {
         logger.error(`Failed to load configuration: ${e.message}`);
         if (e.stack) {
@@ -939,21 +1209,89 @@ export function loadConfiguration(cfgPath?: string): Promise<Configuration> {
 
     return invokePostProcessors(cfg)
         .then(completeCfg => {
+            recorder.record(completeCfg, "postProcessors");
             completeCfg.postProcessors = [];
 
             resolveEnvironmentVariables(completeCfg);
+            recorder.record(completeCfg, path => `${EnvironmentVariablePrefix}${path.split(".").join("_")}`);
             return completeCfg;
         })
         .then(completeCfg => {
             return resolvePlaceholders(completeCfg)
+                .then(() => recorder.record(completeCfg, (path, previous) => `${previous || "runtime"}, placeholder resolved`))
+                .then(() => resolveSecretReferences(completeCfg))
+                .then(() => recorder.record(completeCfg, (path, previous) => `${previous || "runtime"}, secret reference resolved`))
                 .then(() => completeCfg);
         })
         .then(completeCfg => {
             validateConfiguration(completeCfg);
-            return completeCfg;
+            return { configuration: completeCfg, provenance: recorder.provenance };
         });
 }
 
+/**
+ * Name the default configuration the value of the path came from
+ */
+function defaultConfigurationSource(path: string): string {
+    const nodeEnv = process.env.ATOMIST_ENV || process.env.NODE_ENV;
+    if (["name", "version", "keywords", "application"].includes(path)) {
+        return "package.json";
+    } else if (path === "environment" && !!nodeEnv) {
+        return process.env.ATOMIST_ENV ? "ATOMIST_ENV" : "NODE_ENV";
+    } else if (nodeEnv === "production" && _.has(ProductionDefaultConfiguration, path)) {
+        return "ProductionDefaultConfiguration";
+    } else if ((nodeEnv === "staging" || nodeEnv === "testing") && _.has(TestingDefaultConfiguration, path)) {
+        return "TestingDefaultConfiguration";
+    }
+    return "LocalDefaultConfiguration";
+}
+
+/**
+ * Value of the configuration and where it came from
+ */
+export interface ConfigurationValueDescription {
+    /** Path of the value, e.g., http.port */
+    path: string;
+    /** Value with secrets redacted */
+    value: any;
+    /** Source of the value, e.g., ATOMIST_CONFIG */
+    source: string;
+}
+
+/**
+ * Describe every leaf value of the configuration along with its source,
+ * hiding secrets like loggers do.  The redaction patterns of the
+ * configuration are applied even if they haven't been registered with
+ * the logger yet.  Values set at runtime, i.e., after loading the
+ * configuration, have the source "runtime".
+ */
+export function describeConfiguration(cfg: Configuration,
+                                      provenance: ConfigurationProvenance): ConfigurationValueDescription[] {
+    const data = _.omit(configurationData(cfg), CodeKeys);
+    const patterns = ((cfg.redact && cfg.redact.patterns) || []).map(pattern => ({
+        regexp: typeof pattern.regexp === "string" ? new RegExp(pattern.regexp, "g") : pattern.regexp,
+        replacement: pattern.replacement || "[REDACTED]",
+    }));
+    const redactValue = (value: any): any => {
+        if (typeof value === "string") {
+            return patterns.reduce((v, pattern) => v.replace(pattern.regexp, pattern.replacement), redact(value));
+        } else if (Array.isArray(value)) {
+            return value.map(redactValue);
+        } else if (_.isPlainObject(value)) {
+            // Objects inside arrays aren't split into leaf paths, so hide their secrets key by key
+            return _.omitBy(_.mapValues(value, (v, k) => redactValue(obfuscateJson(k, v))), _.isUndefined);
+        }
+        return value;
+    };
+    return leafPaths(data)
+        .map(path => ({
+            path,
+            value: redactValue(obfuscateJson(path.split(".").pop(), _.get(data, path))),
+            source: provenance[path] || "runtime",
+        }))
+        .filter(d => d.value !== undefined);
+}
+
 /**
  * Default set of regular expressions used to remove sensitive
  * information from messages and logs.  The entries are applied in
@@ -1106,6 +1444,11 @@ export const LocalDefaultConfiguration: Configuration = {
     statsd: {
         enabled: false,
     },
+    eventStore: {
+        file: {
+            enabled: false,
+        },
+    },
     redact: {
         log: true,
         messages: true,
@@ -0,0 +1,193 @@
+import * as fs from "fs-extra";
+import * as _ from "lodash";
+import {
+    Configuration,
+    configurationFiles,
+    loadConfiguration,
+} from "./configuration";
+import { ConfigurationSchema } from "./configurationSchema";
+import {
+    changedPaths,
+    CodeKeys,
+    configurationData,
+} from "./internal/util/configurationData";
+import { logger } from "./util/logger";
+
+/**
+ * Paths of the configuration keys that get reloaded when the
+ * configuration files change.  Custom top-level keys, i.e., the ones
+ * not defined by {Configuration}, get reloaded too, so that @Value
+ * injected settings pick up changes.  Add more via reload.keys.
+ */
+export const ReloadableConfigurationKeys = [
+    "logging.level",
+    "logging.file.level",
+    "redact.patterns",
+    "http.rateLimit",
+];
+
+/**
+ * Change applied to the configuration after reloading it
+ */
+export interface ConfigurationChange {
+    /** Paths of the changed keys, e.g., logging.level */
+    keys: string[];
+    /** Values of the changed keys before reloading */
+    previous: { [key: string]: any };
+    /** Configuration with the changes applied */
+    configuration: Configuration;
+}
+
+export type ConfigurationChangeListener = (change: ConfigurationChange) => void | Promise<void>;
+
+const listeners: ConfigurationChangeListener[] = [];
+
+/**
+ * Register a listener to be notified when the configuration got
+ * reloaded with changes.  Returns a function removing the listener.
+ */
+export function onConfigurationChange(listener: ConfigurationChangeListener): () => void {
+    listeners.push(listener);
+    return () => _.pull(listeners, listener);
+}
+
+/**
+ * Options for the {ConfigurationReloader}.
+ */
+export interface ConfigurationReloaderOptions {
+
+    /** Milliseconds between checks of the files for changes; default is 2000 */
+    interval?: number;
+
+    /** Paths of further keys to reload */
+    keys?: string[];
+
+    /** Files to watch; default are the files the configuration is loaded from */
+    files?: string[];
+
+    /** Load the changed configuration; default is loadConfiguration */
+    load?: () => Promise<Configuration>;
+}
+
+/**
+ * Reload the configuration when its files change.  Changes to reloadable
+ * keys are applied to the configuration in place and announced to the
+ * listeners registered via onConfigurationChange.  If any other key
+ * changed, the whole reload is refused and the configuration stays
+ * unchanged.
+ */
+export class ConfigurationReloader {
+
+    private readonly options: ConfigurationReloaderOptions;
+    private readonly keys: string[];
+    private loaded: any;
+    private reloading: Promise<ConfigurationChange | undefined> = Promise.resolve(undefined);
+    private timer: NodeJS.Timer;
+
+    constructor(private readonly configuration: Configuration, options: ConfigurationReloaderOptions = {}) {
+        this.options = {
+            interval: 2000,
+            load: loadConfiguration,
+            ..._.omitBy(options, _.isUndefined),
+        };
+        this.keys = [...ReloadableConfigurationKeys, ...(this.options.keys || [])];
+        // Compare against the configuration as loaded, not as modified at runtime
+        this.loaded = configurationData(configuration);
+    }
+
+    /**
+     * Files watched for changes
+     */
+    get files(): string[] {
+        return this.options.files || configurationFiles();
+    }
+
+    /**
+     * Start reloading the configuration when any of the files changes
+     */
+    public watch(): void {
+        this.files.forEach(f => fs.watchFile(f, { interval: this.options.interval, persistent: false }, this.changed));
+        logger.debug("Watching configuration files '%s' for changes", this.files.join("', '"));
+    }
+
+    /**
+     * Stop watching the files
+     */
+    public close(): void {
+        this.files.forEach(f => fs.unwatchFile(f, this.changed));
+        if (this.timer) {
+            clearTimeout(this.timer);
+        }
+    }
+
+    /**
+     * Load the configuration and apply changes of reloadable keys.
+     * Resolves to the applied change or undefined if nothing changed;
+     * rejects if non-reloadable keys changed.
+     */
+    public reload(): Promise<ConfigurationChange | undefined> {
+        this.reloading = this.reloading.catch(() => undefined).then(() => this.doReload());
+        return this.reloading;
+    }
+
+    private readonly changed = () => {
+        // Wait for editors and deployments to finish writing all files
+        if (this.timer) {
+            clearTimeout(this.timer);
+        }
+        this.timer = setTimeout(() => {
+            this.reload().catch(e => logger.error(e.message));
+        }, 100);
+        this.timer.unref();
+    }
+
+    private async doReload(): Promise<ConfigurationChange | undefined> {
+        this.clearRequireCache();
+        const next = await this.options.load();
+        const nextLoaded = configurationData(next);
+        const keys = changedPaths(_.omit(this.loaded, CodeKeys), _.omit(nextLoaded, CodeKeys));
+        if (keys.length === 0) {
+            logger.debug("Reloaded configuration without changes");
+            return undefined;
+        }
+        const refused = keys.filter(k => !this.reloadable(k));
+        if (refused.length > 0) {
+            throw new Error(`Refusing to reload configuration with changes of non-reloadable keys '${refused.join("', '")}'`);
+        }
+
+        const previous: { [key: string]: any } = {};
+        keys.forEach(k => {
+            previous[k] = _.get(this.configuration, k);
+            if (_.has(next, k)) {
+                _.set(this.configuration, k, _.get(next, k));
+            } else {
+                _.unset(this.configuration, k);
+            }
+        });
+        this.loaded = nextLoaded;
+        logger.info("Reloaded configuration with changes of keys '%s'", keys.join("', '"));
+
+        const change: ConfigurationChange = { keys, previous, configuration: this.configuration };
+        for (const listener of [...listeners]) {
+            try {
+                await listener(change);
+            } catch (e) {
+                logger.warn("Configuration change listener failed: %s", e.message);
+            }
+        }
+        return change;
+    }
+
+    private reloadable(key: string): boolean {
+        return !ConfigurationSchema.properties[key.split(".")[0]] || this.keys.some(r => key === r || key.startsWith(`${r}.`));
+    }
+
+    /**
+     * Make sure JavaScript configuration files get evaluated again
+     */
+    private clearRequireCache(): void {
+        this.files.filter(f => f.endsWith(".js")).forEach(f => {
+            delete require.cache[require.resolve(f)];
+        });
+    }
+}
@@ -0,0 +1,254 @@
+import * as Ajv from "ajv";
+import * as _ from "lodash";
+
+/**
+ * Problem with a single key of the configuration
+ */
+export interface ConfigurationError {
+    /** path of the key, e.g., cluster.workers or redact.patterns[0].regexp */
+    path: string;
+    message: string;
+}
+
+const bool = { type: "boolean" };
+const str = { type: "string" };
+const num = { type: "number", minimum: 0 };
+const int = { type: "integer", minimum: 0 };
+const strings = { type: "array", items: str };
+const stringOrStrings = { type: ["string", "array"], items: str };
+/** functions, class instances and other values that can't be described by JSON schema */
+const anything = {};
+const logLevel = { type: "string", enum: ["silly", "debug", "verbose", "info", "warn", "error"] };
+
+function obj(properties: { [key: string]: any }, required: string[] = []): any {
+    const schema: any = { type: "object", properties, additionalProperties: false };
+    if (required.length > 0) {
+        schema.required = required;
+    }
+    return schema;
+}
+
+function map(values: any): any {
+    return { type: "object", additionalProperties: values };
+}
+
+const rateLimit = obj({ rate: { type: "number", exclusiveMinimum: 0 }, burst: num }, ["rate"]);
+
+const http = obj({
+    enabled: bool,
+    client: obj({ factory: anything }),
+    port: { type: "integer", minimum: 0, maximum: 65535 },
+    host: str,
+    customizers: { type: "array" },
+    auth: obj({
+        basic: obj({ enabled: bool, username: str, password: str }),
+        bearer: obj({ enabled: bool, org: str, adminOrg: str }),
+        token: obj({ enabled: bool, verify: anything }),
+        signature: obj({
+            enabled: bool,
+            github: obj({ secret: str }, ["secret"]),
+            hmac: obj({ secret: str, header: str, algorithm: str, timestampHeader: str, tolerance: num }, ["secret"]),
+        }),
+        jwt: obj({
+            enabled: bool,
+            jwks: obj({ url: str, file: str }),
+            issuer: stringOrStrings,
+            audience: stringOrStrings,
+            algorithms: strings,
+            permissions: obj({ claim: str, admin: strings, invoke: strings }),
+        }, ["jwks"]),
+        access: map(obj({ users: strings, githubOrgs: strings, githubTeams: strings, roles: strings })),
+    }),
+    endpoint: obj({ graphql: str }),
+    rateLimit: obj({
+        enabled: bool,
+        global: rateLimit,
+        client: rateLimit,
+        handler: rateLimit,
+        handlers: map(rateLimit),
+    }),
+    messageClientFactory: anything,
+    graphClientFactory: anything,
+});
+
+const ws = obj({
+    enabled: bool,
+    client: obj({ factory: anything }),
+    termination: obj({ graceful: bool, gracePeriod: num }),
+    compress: bool,
+    timeout: num,
+    reconnect: obj({
+        factor: { type: "number", minimum: 1 },
+        minTimeout: num,
+        maxTimeout: num,
+        jitter: { type: "number", minimum: 0, maximum: 1 },
+        maxAttempts: { type: "integer", minimum: 1 },
+    }),
+    queue: obj({
+        maxSize: int,
+        maxAge: num,
+        overflow: { type: "string", enum: ["dropOldest", "dropNewest", "block"] },
+        spool: obj({ enabled: bool, directory: str }),
+    }),
+    /** set at runtime */
+    lifecycle: anything,
+    session: anything,
+});
+
+const configurationProperties = {
+    name: str,
+    version: str,
+    workspaceIds: strings,
+    groups: strings,
+    policy: { type: "string", enum: ["ephemeral", "durable"] },
+    apiKey: str,
+    http,
+    ws,
+    graphql: obj({ client: obj({ factory: anything }) }),
+    endpoints: obj({ graphql: str, api: str, auth: str }),
+    postProcessors: { type: "array" },
+    environment: str,
+    application: str,
+    keywords: strings,
+    applicationEvents: obj({ enabled: bool, workspaceId: str }),
+    cluster: obj({
+        enabled: bool,
+        workers: { type: "integer", minimum: 1 },
+        maxConcurrentPerWorker: { type: "integer", minimum: 1 },
+        recycle: obj({ maxRss: num, maxInvocations: { type: "integer", minimum: 1 } }),
+    }),
+    logging: obj({
+        level: logLevel,
+        custom: anything,
+        banner: obj({
+            enabled: bool,
+            message: anything,
+            contributors: { type: "array" },
+        }),
+        file: obj({ enabled: bool, name: str, level: logLevel }),
+    }),
+    redact: obj({
+        log: bool,
+        messages: bool,
+        patterns: { type: "array", items: obj({ regexp: anything, replacement: str }, ["regexp"]) },
+    }),
+    statsd: obj({ enabled: bool, host: str, port: { type: "integer", minimum: 0, maximum: 65535 } }),
+    eventStore: obj({ file: obj({ enabled: bool, directory: str, maxEntries: { type: "integer", minimum: 1 }, maxAge: num }) }),
+    tracing: obj({ enabled: bool, exporter: anything }),
+    concurrency: map({ type: "integer", minimum: 1 }),
+    timeout: obj({ default: num, handlers: map(num) }),
+    validation: { type: "string", enum: ["warn", "fail", "off"] },
+    reload: obj({ enabled: bool, interval: num, keys: strings }),
+    secretResolver: anything,
+    metadataProcessor: anything,
+    commands: { type: ["array", "null"] },
+    events: { type: ["array", "null"] },
+    ingesters: { type: "array" },
+    listeners: { type: "array" },
+};
+
+/**
+ * JSON schema of the {Configuration}.  Custom top-level keys are
+ * allowed, unknown keys nested in the known sections are not.
+ */
+export const ConfigurationSchema: any = {
+    type: "object",
+    properties: configurationProperties,
+};
+
+/**
+ * JSON schema of the {UserConfig} in client.config.json
+ */
+export const UserConfigSchema: any = {
+    type: "object",
+    properties: {
+        ...configurationProperties,
+        modules: {
+            type: "array",
+            items: {
+                type: "object",
+                properties: configurationProperties,
+                required: ["name"],
+            },
+        },
+    },
+};
+
+const validators = new Map<any, Ajv.ValidateFunction>();
+
+/**
+ * Validate the configuration against the schema, returning an error
+ * with the precise path for every unknown or mistyped key.
+ */
+export function validateConfigurationSchema(cfg: any, schema: any = ConfigurationSchema): ConfigurationError[] {
+    let validate = validators.get(schema);
+    if (!validate) {
+        validate = new Ajv({ allErrors: true, jsonPointers: true, verbose: true }).compile(schema);
+        validators.set(schema, validate);
+    }
+    if (validate(cfg)) {
+        return [];
+    }
+    return _.uniqWith(validate.errors.map(toConfigurationError), _.isEqual);
+}
+
+function toConfigurationError(e: Ajv.ErrorObject): ConfigurationError {
+    const path = pathOf(e.dataPath);
+    const params: any = e.params;
+    switch (e.keyword) {
+        case "additionalProperties":
+            const key = params.additionalProperty;
+            const suggestion = suggest(key, Object.keys((e.parentSchema as any).properties || {}));
+            return {
+                path: join(path, key),
+                message: `Unknown key${suggestion ? `, did you mean '${suggestion}'?` : ""}`,
+            };
+        case "required":
+            return { path: join(path, params.missingProperty), message: "Required but missing" };
+        case "type":
+            return { path, message: `Must be ${params.type.split(",").join(" or ")}` };
+        case "enum":
+            return { path, message: `Must be one of '${params.allowedValues.join("', '")}'` };
+        default:
+            return { path, message: e.message.replace(/^should/, "Must") };
+    }
+}
+
+function pathOf(pointer: string): string {
+    return pointer.split("/").slice(1)
+        .map(s => s.replace(/~1/g, "/").replace(/~0/g, "~"))
+        .reduce((path, s) => /^\d+$/.test(s) ? `${path}[${s}]` : join(path, s), "");
+}
+
+function join(path: string, key: string): string {
+    return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Find the known key closest to the unknown key, if it is close enough
+ * to likely be a typo
+ */
+function suggest(key: string, known: string[]): string | undefined {
+    const candidates = known.map(k => ({ k, d: distance(key.toLowerCase(), k.toLowerCase()) }))
+        .filter(c => c.d <= Math.max(1, Math.floor(key.length / 3)))
+        .sort((c1, c2) => c1.d - c2.d);
+    return candidates.length > 0 ? candidates[0].k : undefined;
+}
+
+/**
+ * Edit distance counting insertions, deletions, substitutions and
+ * transpositions of adjacent characters
+ */
+function distance(a: string, b: string): number {
+    const d: number[][] = _.range(a.length + 1).map(i => _.range(b.length + 1).map(j => i === 0 ? j : j === 0 ? i : 0));
+    for (let i = 1; i <= a.length; i++) {
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+            }
+        }
+    }
+    return d[a.length][b.length];
+}
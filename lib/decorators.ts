@@ -1,6 +1,7 @@
 import {
     BaseParameter,
     BaseValue,
+    declareAccess,
     declareCommandHandler,
     declareEventHandler,
     declareMappedParameter,
@@ -9,8 +10,10 @@ import {
     declareSecret,
     declareTags,
     declareValue,
+    InvocationOptions,
 } from "./internal/metadata/decoratorSupport";
 import { toStringArray } from "./internal/util/string";
+import { AccessRule } from "./metadata/automationMetadata";
 
 /**
  * Decorator for parameters. Adds to object properties
@@ -57,12 +60,17 @@ export function Value(pathOrValue: string | BaseValue) {
 /**
  * Decorator for a command handler class. Implements HandleCommand
  * @param {string} description
+ * @param options concurrency, timeout and priority of the handler invocations, optional
  * @param {string[] | string} intent
  * @return {(obj: any) => any}
  * @constructor
  */
-export function CommandHandler(description: string, ...intent: string[]) {
-    return (obj: any) => { declareCommandHandler(obj, description, null, intent); };
+export function CommandHandler(description: string, ...intent: string[]): (obj: any) => void;
+export function CommandHandler(description: string, options: InvocationOptions, ...intent: string[]): (obj: any) => void;
+export function CommandHandler(description: string, ...optionsAndIntent: Array<string | InvocationOptions>): (obj: any) => void {
+    const options = typeof optionsAndIntent[0] === "object" ? optionsAndIntent[0] as InvocationOptions : {};
+    const intent = optionsAndIntent.filter(i => typeof i === "string") as string[];
+    return (obj: any) => { declareCommandHandler(obj, description, null, intent, options); };
 }
 
 /**
@@ -73,10 +81,12 @@ export function CommandHandler(description: string, ...intent: string[]) {
  * @constructor
  */
 export function ConfigurableCommandHandler(description: string,
-                                           options: { intent?: string | string[], autoSubmit?: boolean }) {
+                                           options: { intent?: string | string[], autoSubmit?: boolean } & InvocationOptions) {
     const intent = options.intent ? toStringArray(options.intent) : [];
     const autoSubmit = options.autoSubmit ? options.autoSubmit : false;
-    return (obj: any) => { declareCommandHandler(obj, description, autoSubmit, intent); };
+    return (obj: any) => {
+        declareCommandHandler(obj, description, autoSubmit, intent, options);
+    };
 }
 
 /**
@@ -88,11 +98,30 @@ export function Parameters() {
     return (obj: any) => { declareParameters(obj); };
 }
 
+/**
+ * Decorator for an event handler class. Implements HandleEvent
+ * @param {string} description
+ * @param {string} subscription
+ * @param options concurrency, timeout and priority of the handler invocations
+ * @return {(obj: any) => any}
+ * @constructor
+ */
 export function EventHandler(
     description: string,
-    subscription?: string) {
+    subscription?: string,
+    options: InvocationOptions = {}) {
     return (obj: object) => {
-        declareEventHandler(obj, description, subscription);
+        declareEventHandler(obj, description, subscription, options);
+    };
+}
+
+/**
+ * Decorator restricting who may invoke a command handler over HTTP.
+ * Rules configured in http.auth.access take precedence.
+ */
+export function Secured(rule: AccessRule): (target: any) => void {
+    return (target: any) => {
+        declareAccess(target, rule);
     };
 }
 
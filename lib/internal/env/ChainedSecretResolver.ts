@@ -0,0 +1,60 @@
+import { SecretResolver } from "../../spi/env/SecretResolver";
+import { logger } from "../../util/logger";
+
+/**
+ * Options for the {ChainedSecretResolver}.
+ */
+export interface ChainedSecretResolverOptions {
+
+    /** Milliseconds to cache resolved secrets for; 0 disables caching; default is 300000 */
+    ttl?: number;
+}
+
+/**
+ * Resolve secrets by trying the resolvers in order until one of them
+ * resolves the secret.  Resolved secrets are cached for the ttl; failures
+ * are not cached.  Reject if none of the resolvers resolves the secret.
+ */
+export class ChainedSecretResolver implements SecretResolver {
+
+    private readonly ttl: number;
+    private readonly cache: Map<string, { value: string, expires: number }> = new Map();
+
+    constructor(private readonly resolvers: SecretResolver[],
+                options: ChainedSecretResolverOptions = {}) {
+        this.ttl = options.ttl !== undefined ? options.ttl : 300000;
+    }
+
+    public async resolve(key: string): Promise<string> {
+        const cached = this.cache.get(key);
+        if (cached && cached.expires > Date.now()) {
+            return cached.value;
+        }
+        this.cache.delete(key);
+
+        const errors: string[] = [];
+        for (const resolver of this.resolvers) {
+            try {
+                const value = await resolver.resolve(key);
+                if (value !== undefined && value !== null) {
+                    if (this.ttl > 0) {
+                        this.cache.set(key, { value, expires: Date.now() + this.ttl });
+                    }
+                    return value;
+                }
+            } catch (e) {
+                logger.debug(e.message);
+                errors.push(e.message);
+            }
+        }
+        throw new Error(`Failed to resolve '${key}' with any of ${this.resolvers.length} secret resolvers${
+            errors.length > 0 ? `: ${errors.join("; ")}` : ""}`);
+    }
+
+    /**
+     * Forget all cached secrets, e.g., after rotating them
+     */
+    public clear(): void {
+        this.cache.clear();
+    }
+}
@@ -0,0 +1,33 @@
+import { SecretResolver } from "../../spi/env/SecretResolver";
+import { logger } from "../../util/logger";
+import { hideString } from "../util/string";
+import { matchPrefix } from "./secretPrefix";
+
+/**
+ * Resolve secrets from environment variables.  The prefix map maps
+ * secret key prefixes to environment variable prefixes; the rest of the
+ * key is upper-cased with all other characters replaced by underscores,
+ * e.g., with { "github://": "GITHUB_" } the secret github://org_token
+ * resolves to the value of GITHUB_ORG_TOKEN.
+ * Throw exception if not found.
+ */
+export class EnvironmentSecretResolver implements SecretResolver {
+
+    constructor(private readonly prefixes: { [prefix: string]: string },
+                private readonly env: { [name: string]: string } = process.env) {
+    }
+
+    public resolve(key: string): string {
+        const match = matchPrefix(key, this.prefixes);
+        if (!match) {
+            throw new Error(`Failed to resolve '${key}': no environment variable prefix configured`);
+        }
+        const name = `${match.value}${match.rest.replace(/[^a-zA-Z0-9]/g, "_").toUpperCase()}`;
+        const resolved = this.env[name];
+        if (!resolved) {
+            throw new Error(`Failed to resolve '${key}': environment variable '${name}' not set`);
+        }
+        logger.debug(`Resolved '${key}' from environment variable '${name}' to '${hideString(resolved)}'`);
+        return resolved;
+    }
+}
@@ -0,0 +1,43 @@
+import * as fs from "fs-extra";
+import * as p from "path";
+import { SecretResolver } from "../../spi/env/SecretResolver";
+import { logger } from "../../util/logger";
+import { hideString } from "../util/string";
+import { matchPrefix } from "./secretPrefix";
+
+/**
+ * Resolve secrets from files mounted into a directory, one file per
+ * secret, the way Kubernetes mounts secret volumes.  The prefix map maps
+ * secret key prefixes to directories; the rest of the key is the name of
+ * the file, e.g., with { "github://": "/var/run/secrets/github" } the
+ * secret github://org_token resolves to the content of
+ * /var/run/secrets/github/org_token without trailing line break.
+ * Reject if not found.
+ */
+export class FileSecretResolver implements SecretResolver {
+
+    constructor(private readonly prefixes: { [prefix: string]: string }) {
+    }
+
+    public async resolve(key: string): Promise<string> {
+        const match = matchPrefix(key, this.prefixes);
+        if (!match) {
+            throw new Error(`Failed to resolve '${key}': no secret directory configured`);
+        }
+        if (!match.rest || match.rest.split("/").some(s => s === "" || s === "." || s === "..")) {
+            throw new Error(`Failed to resolve '${key}': invalid secret file name '${match.rest}'`);
+        }
+        const file = p.join(match.value, ...match.rest.split("/"));
+        let resolved: string;
+        try {
+            resolved = (await fs.readFile(file, "utf8")).replace(/\r?\n$/, "");
+        } catch (e) {
+            throw new Error(`Failed to resolve '${key}': ${e.message}`);
+        }
+        if (!resolved) {
+            throw new Error(`Failed to resolve '${key}': secret file '${file}' is empty`);
+        }
+        logger.debug(`Resolved '${key}' from file '${file}' to '${hideString(resolved)}'`);
+        return resolved;
+    }
+}
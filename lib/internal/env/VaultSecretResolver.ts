@@ -0,0 +1,103 @@
+import { SecretResolver } from "../../spi/env/SecretResolver";
+import {
+    DefaultHttpClientFactory,
+    HttpClientFactory,
+    HttpMethod,
+} from "../../spi/http/httpClient";
+import { logger } from "../../util/logger";
+import { RetryOptions } from "../../util/retry";
+import { hideString } from "../util/string";
+import { matchPrefix } from "./secretPrefix";
+
+/**
+ * Options for the {VaultSecretResolver}.
+ */
+export interface VaultSecretResolverOptions {
+
+    /** Base URL of the Vault server; defaults to VAULT_ADDR */
+    url?: string;
+
+    /** Token to authenticate with; defaults to VAULT_TOKEN */
+    token?: string;
+
+    /** Namespace to send with requests, if any */
+    namespace?: string;
+
+    /** Mount path of the KV secrets engine; default is secret */
+    mount?: string;
+
+    /** Version of the KV secrets engine; default is 2 */
+    version?: 1 | 2;
+
+    /** Map of secret key prefixes to secret paths in the KV secrets engine */
+    paths: { [prefix: string]: string };
+
+    /** Retry options for requests; by default requests are not retried */
+    retry?: RetryOptions;
+
+    /** Factory of the HTTP client to talk to Vault with */
+    httpClientFactory?: HttpClientFactory;
+}
+
+/**
+ * Resolve secrets from the KV secrets engine of a Vault compatible
+ * server.  The path map maps secret key prefixes to secret paths; the
+ * last segment of the rest of the key is the field of the secret, e.g.,
+ * with { "github://": "automation/github" } the secret github://org_token
+ * resolves to the field org_token of the secret automation/github.
+ * Reject if not found.
+ */
+export class VaultSecretResolver implements SecretResolver {
+
+    private readonly options: VaultSecretResolverOptions;
+
+    constructor(options: VaultSecretResolverOptions) {
+        this.options = {
+            url: process.env.VAULT_ADDR,
+            token: process.env.VAULT_TOKEN,
+            mount: "secret",
+            version: 2,
+            retry: { retries: 0 },
+            httpClientFactory: DefaultHttpClientFactory,
+            ...options,
+        };
+    }
+
+    public async resolve(key: string): Promise<string> {
+        const match = matchPrefix(key, this.options.paths);
+        if (!match) {
+            throw new Error(`Failed to resolve '${key}': no Vault path configured`);
+        }
+        const segments = [...match.value.split("/"), ...match.rest.split("/")].filter(s => !!s);
+        const field = segments.pop();
+        if (!field || segments.length === 0) {
+            throw new Error(`Failed to resolve '${key}': invalid Vault path '${segments.join("/")}'`);
+        }
+        const path = segments.map(encodeURIComponent).join("/");
+        const url = this.options.version === 1 ?
+            `${this.options.url.replace(/\/$/, "")}/v1/${this.options.mount}/${path}` :
+            `${this.options.url.replace(/\/$/, "")}/v1/${this.options.mount}/data/${path}`;
+        const headers: { [name: string]: string } = { "X-Vault-Token": this.options.token };
+        if (this.options.namespace) {
+            headers["X-Vault-Namespace"] = this.options.namespace;
+        }
+
+        let data: any;
+        try {
+            const response = await this.options.httpClientFactory.create(url).exchange<any>(url, {
+                method: HttpMethod.Get,
+                headers,
+                retry: this.options.retry,
+            });
+            data = this.options.version === 1 ? response.body.data : response.body.data.data;
+        } catch (e) {
+            throw new Error(`Failed to resolve '${key}': ${e.message}`);
+        }
+        const resolved = data ? data[field] : undefined;
+        if (resolved === undefined || resolved === null) {
+            throw new Error(`Failed to resolve '${key}': field '${field}' not found in Vault secret '${segments.join("/")}'`);
+        }
+        logger.debug(`Resolved '${key}' from Vault secret '${segments.join("/")}' to '${hideString(resolved)}'`);
+        return String(resolved);
+    }
+}
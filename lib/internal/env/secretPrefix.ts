@@ -0,0 +1,24 @@
+/**
+ * Secret key matched against a prefix map
+ */
+export interface PrefixMatch {
+    /** value the matching prefix maps to */
+    value: string;
+    /** remainder of the key after the prefix */
+    rest: string;
+}
+
+/**
+ * Find the longest prefix of the map the key starts with, e.g., to map
+ * github://org_token via github:// to an environment variable, directory
+ * or Vault path.  Returns undefined if no prefix matches.
+ */
+export function matchPrefix(key: string, prefixes: { [prefix: string]: string }): PrefixMatch | undefined {
+    const prefix = Object.keys(prefixes)
+        .filter(p => key.startsWith(p))
+        .sort((p1, p2) => p2.length - p1.length)[0];
+    if (prefix === undefined) {
+        return undefined;
+    }
+    return { value: prefixes[prefix], rest: key.slice(prefix.length) };
+}
@@ -0,0 +1,196 @@
+import * as fs from "fs-extra";
+import * as stringify from "json-stringify-safe";
+import * as _ from "lodash";
+import { LRUMap } from "lru_map";
+import * as os from "os";
+import * as p from "path";
+import { Configuration } from "../../configuration";
+import { logger } from "../../util/logger";
+import {
+    CommandIncoming,
+    EventIncoming,
+} from "../transport/RequestProcessor";
+import {
+    CacheKey,
+    hideSecrets,
+    InMemoryEventStore,
+} from "./InMemoryEventStore";
+
+/**
+ * Options for the {FileEventStore}.
+ */
+export interface FileEventStoreOptions {
+
+    /** Directory to write the event, command and message logs into */
+    directory: string;
+
+    /** Maximum number of events, commands and messages to retain; default is 1000 */
+    maxEntries?: number;
+
+    /** Maximum age in milliseconds of retained entries; default is unlimited */
+    maxAge?: number;
+
+    /**
+     * Only read the log files, neither compacting nor appending to them,
+     * e.g., to inspect the logs of a running client; default is false
+     */
+    readOnly?: boolean;
+}
+
+/**
+ * Create the {FileEventStore} options from the eventStore.file
+ * configuration, defaulting the directory to ~/.atomist/events/<application>.
+ */
+export function fileEventStoreOptions(configuration: Configuration): FileEventStoreOptions {
+    const fileCfg = (configuration.eventStore ? configuration.eventStore.file : undefined) || {};
+    return {
+        directory: fileCfg.directory ||
+            p.join(os.homedir(), ".atomist", "events", configuration.application || configuration.name),
+        maxEntries: fileCfg.maxEntries,
+        maxAge: fileCfg.maxAge,
+    };
+}
+
+/**
+ * {EventStore} implementation that keeps the most recent entries in memory
+ * and persists every event, command and message to an append-only log file
+ * so that they survive restarts of the automation client.
+ *
+ * Secrets of incoming events and commands are hidden before they get stored.
+ * The log files get compacted to the configured retention limits on startup
+ * and whenever they grow past twice the number of retained entries.  A
+ * read-only store leaves the log files untouched and only keeps new entries
+ * in memory.
+ */
+export class FileEventStore extends InMemoryEventStore {
+
+    private readonly maxEntries: number;
+    private readonly eventLog: EntryLog<EventIncoming>;
+    private readonly commandLog: EntryLog<CommandIncoming>;
+    private readonly messageLog: EntryLog<any>;
+
+    constructor(private readonly options: FileEventStoreOptions) {
+        super(options.maxEntries || 1000);
+        this.maxEntries = options.maxEntries || 1000;
+
+        const readOnly = options.readOnly === true;
+        if (!readOnly) {
+            fs.mkdirsSync(options.directory);
+        }
+        this.eventLog = new EntryLog(p.join(options.directory, "events.log"), this.eventCache, this.maxEntries, readOnly);
+        this.commandLog = new EntryLog(p.join(options.directory, "commands.log"), this.commandCache, this.maxEntries, readOnly);
+        this.messageLog = new EntryLog(p.join(options.directory, "messages.log"), this.messageCache, this.maxEntries, readOnly);
+
+        [this.eventLog, this.commandLog, this.messageLog].forEach(l => l.load(this.oldest()));
+    }
+
+    public recordEvent(event: EventIncoming): string {
+        const id = super.recordEvent(hideSecrets(_.cloneDeep(event)));
+        this.eventLog.append(this.oldest());
+        return id;
+    }
+
+    public recordCommand(command: CommandIncoming): string {
+        const id = super.recordCommand(hideSecrets(_.cloneDeep(command)));
+        this.commandLog.append(this.oldest());
+        return id;
+    }
+
+    public recordMessage(id: string, correlationId: string, message: any): string {
+        super.recordMessage(id, correlationId, message);
+        this.messageLog.append(this.oldest());
+        return id;
+    }
+
+    public events(from: number = -1): any[] {
+        return super.events(Math.max(from, this.oldest()));
+    }
+
+    public commands(from: number = -1): any[] {
+        return super.commands(Math.max(from, this.oldest()));
+    }
+
+    public messages(from: number = -1): any[] {
+        return super.messages(Math.max(from, this.oldest()));
+    }
+
+    /**
+     * Timestamp of the oldest entry that is still within the retention period
+     */
+    private oldest(): number {
+        return this.options.maxAge ? Date.now() - this.options.maxAge : -1;
+    }
+}
+
+/**
+ * Append-only log file backing one of the caches of the store
+ */
+class EntryLog<T> {
+
+    private lines: number = 0;
+
+    constructor(private readonly path: string,
+                private readonly cache: LRUMap<CacheKey, T>,
+                private readonly maxEntries: number,
+                private readonly readOnly: boolean) {
+    }
+
+    /**
+     * Read retained entries from the log into the cache and compact the log
+     * unless it is read-only
+     */
+    public load(oldest: number): void {
+        if (fs.existsSync(this.path)) {
+            const entries = fs.readFileSync(this.path, "utf8")
+                .split("\n")
+                .filter(l => l.trim().length > 0)
+                .map(l => {
+                    try {
+                        return JSON.parse(l) as { key: CacheKey, value: T };
+                    } catch (e) {
+                        logger.warn("Ignoring corrupt entry in '%s': %s", this.path, e.message);
+                        return undefined;
+                    }
+                })
+                .filter(e => !!e && !!e.key && e.key.ts > oldest)
+                .slice(-this.maxEntries);
+            entries.forEach(e => this.cache.set(e.key, e.value));
+        }
+        if (!this.readOnly) {
+            this.compact(oldest);
+        }
+    }
+
+    /**
+     * Append the newest entry of the cache to the log, compacting it if it has grown too large
+     */
+    public append(oldest: number): void {
+        if (this.readOnly) {
+            return;
+        }
+        const entry = this.cache.newest;
+        try {
+            fs.appendFileSync(this.path, stringify({ key: entry.key, value: entry.value }) + "\n",
+                { encoding: "utf8", mode: 0o600 });
+            this.lines++;
+            if (this.lines > this.maxEntries * 2) {
+                this.compact(oldest);
+            }
+        } catch (e) {
+            logger.warn("Failed to write entry to '%s': %s", this.path, e.message);
+        }
+    }
+
+    private compact(oldest: number): void {
+        const entries: string[] = [];
+        this.cache.forEach((v, k) => {
+            if (k.ts > oldest) {
+                entries.push(stringify({ key: k, value: v }));
+            }
+        });
+        const tmp = `${this.path}.tmp`;
+        fs.writeFileSync(tmp, entries.map(e => e + "\n").join(""), { encoding: "utf8", mode: 0o600 });
+        fs.renameSync(tmp, this.path);
+        this.lines = entries.length;
+    }
+}
@@ -14,18 +14,18 @@ import {
  */
 export class InMemoryEventStore implements EventStore {
 
-    private eventCache: LRUMap<CacheKey, EventIncoming>;
-    private commandCache: LRUMap<CacheKey, CommandIncoming>;
-    private messageCache: LRUMap<CacheKey, any>;
+    protected eventCache: LRUMap<CacheKey, EventIncoming>;
+    protected commandCache: LRUMap<CacheKey, CommandIncoming>;
+    protected messageCache: LRUMap<CacheKey, any>;
 
     // 5 mins for 3 hours
-    private eventSer = new RRD(60 * 5, 12 * 3);
-    private commandSer = new RRD(60 * 5, 12 * 3);
+    protected eventSer = new RRD(60 * 5, 12 * 3);
+    protected commandSer = new RRD(60 * 5, 12 * 3);
 
-    constructor() {
-        this.eventCache = new LRUMap<CacheKey, EventIncoming>(100);
-        this.commandCache = new LRUMap<CacheKey, CommandIncoming>(100);
-        this.messageCache = new LRUMap<CacheKey, any>(100);
+    constructor(size: number = 100) {
+        this.eventCache = new LRUMap<CacheKey, EventIncoming>(size);
+        this.commandCache = new LRUMap<CacheKey, CommandIncoming>(size);
+        this.messageCache = new LRUMap<CacheKey, any>(size);
     }
 
     public recordEvent(event: EventIncoming) {
@@ -76,13 +76,15 @@ export class InMemoryEventStore implements EventStore {
     }
 }
 
-function hideSecrets(event: EventIncoming | CommandIncoming) {
-    event.secrets = event.secrets
-        ? event.secrets.map(s => ({ uri: s.uri, value: hideString(s.value) })) : undefined;
-    return event;
+export function hideSecrets<T extends EventIncoming | CommandIncoming>(event: T): T {
+    return {
+        ...(event as any),
+        secrets: event.secrets
+            ? event.secrets.map(s => ({ uri: s.uri, value: hideString(s.value) })) : undefined,
+    };
 }
 
-interface CacheKey {
+export interface CacheKey {
     guid: string;
     correlationId: string;
     ts: number;
@@ -117,7 +119,7 @@ class RRD {
         this.buckets[0] = { ts: Math.floor(Date.now() / 1000), value: 0 };
         this.index = 1;
         this.interval = interval * 1000;
-        this.iid = setInterval(this.increment.bind(this), this.interval);
+        this.iid = setInterval(this.increment.bind(this), this.interval).unref();
     }
 
     public increment() {
@@ -0,0 +1,126 @@
+import * as _ from "lodash";
+import { eventStore } from "../../globals";
+import { HandlerResult } from "../../HandlerResult";
+import { EventStore } from "../../spi/event/EventStore";
+import { MessageClient } from "../../spi/message/MessageClient";
+import { ConsoleMessageClient } from "../message/ConsoleMessageClient";
+import { ExpressRequestProcessor } from "../transport/express/ExpressRequestProcessor";
+import {
+    CommandIncoming,
+    EventIncoming,
+    RequestProcessor,
+    Secret,
+} from "../transport/RequestProcessor";
+import { guid } from "../util/string";
+
+/**
+ * Options for replaying a recorded event or command.
+ */
+export interface ReplayOptions {
+
+    /**
+     * Secrets to use for the replay.  Recorded payloads only contain
+     * redacted secrets, so secrets the handler needs have to be provided
+     * again.  Secrets are matched by uri.
+     */
+    secrets?: Secret[];
+
+    /**
+     * Print messages sent by the handler to the console instead of
+     * sending them to chat
+     */
+    console?: boolean;
+}
+
+/**
+ * Pick the known replay options from an untrusted request body,
+ * throwing an error if one of them has the wrong type.
+ */
+export function replayOptions(body: any): ReplayOptions {
+    const options: ReplayOptions = {};
+    if (_.isNil(body)) {
+        return options;
+    } else if (!_.isPlainObject(body)) {
+        throw new Error("Replay options must be a JSON object");
+    }
+    if (!_.isNil(body.console)) {
+        if (typeof body.console !== "boolean") {
+            throw new Error("Replay option 'console' must be a boolean");
+        }
+        options.console = body.console;
+    }
+    if (!_.isNil(body.secrets)) {
+        if (!Array.isArray(body.secrets) ||
+            body.secrets.some(s => !_.isPlainObject(s) || typeof s.uri !== "string" || typeof s.value !== "string")) {
+            throw new Error("Replay option 'secrets' must be an array of uri and value strings");
+        }
+        options.secrets = body.secrets.map(s => ({ uri: s.uri, value: s.value }));
+    }
+    return options;
+}
+
+/**
+ * Find a recorded event by its id in the given {EventStore}.
+ */
+export function findEvent(id: string, store: EventStore = eventStore()): EventIncoming | undefined {
+    const entry = _.findLast(store.events(), e => e.key.guid === id);
+    return entry ? entry.value : undefined;
+}
+
+/**
+ * Find a recorded command by its id in the given {EventStore}.
+ */
+export function findCommand(id: string, store: EventStore = eventStore()): CommandIncoming | undefined {
+    const entry = _.findLast(store.commands(), e => e.key.guid === id);
+    return entry ? entry.value : undefined;
+}
+
+/**
+ * Re-dispatch a recorded event through the given {RequestProcessor}.
+ * The replay gets a new correlation id so that it can be told apart from
+ * the original invocation.
+ */
+export function replayEvent(event: EventIncoming,
+                            processor: RequestProcessor,
+                            options: ReplayOptions = {}): Promise<HandlerResult[]> {
+    const replay = _.cloneDeep(event);
+    replay.extensions.correlation_id = guid();
+    replay.secrets = replaceSecrets(replay.secrets, options.secrets);
+
+    return new Promise<HandlerResult[]>((resolve, reject) => {
+        processor.processEvent(replay, results => results.then(resolve, reject));
+    });
+}
+
+/**
+ * Re-dispatch a recorded command through the given {RequestProcessor}.
+ * The replay gets a new correlation id so that it can be told apart from
+ * the original invocation.
+ */
+export function replayCommand(command: CommandIncoming,
+                              processor: RequestProcessor,
+                              options: ReplayOptions = {}): Promise<HandlerResult> {
+    const replay = _.cloneDeep(command);
+    replay.correlation_id = guid();
+    replay.secrets = replaceSecrets(replay.secrets, options.secrets);
+
+    return new Promise<HandlerResult>((resolve, reject) => {
+        processor.processCommand(replay, result => result.then(resolve, reject));
+    });
+}
+
+/**
+ * RequestProcessor that prints all messages sent by handlers to the console.
+ * Use this to replay recorded payloads without posting anything to chat.
+ */
+export class ConsoleRequestProcessor extends ExpressRequestProcessor {
+
+    protected createMessageClient(event: EventIncoming | CommandIncoming): MessageClient {
+        return new ConsoleMessageClient();
+    }
+}
+
+function replaceSecrets(recorded: Secret[] = [], provided: Secret[] = []): Secret[] {
+    const secrets = recorded.map(s => provided.find(p => p.uri === s.uri) || s);
+    return [...secrets, ...provided.filter(p => !secrets.some(s => s.uri === p.uri))];
+}
@@ -0,0 +1,130 @@
+import { CancellationSignal } from "../../HandlerContext";
+import { logger } from "../../util/logger";
+import * as namespace from "../util/cls";
+import { Deferred } from "../util/Deferred";
+
+/**
+ * Error raised when an operation got aborted because its invocation got cancelled
+ */
+export class CancellationError extends Error {
+
+    constructor(message: string) {
+        super(message);
+        Object.setPrototypeOf(this, new.target.prototype);
+    }
+}
+
+/**
+ * Error raised when a handler invocation did not finish within its timeout
+ */
+export class TimeoutError extends CancellationError {
+
+    constructor(message: string, public readonly timeout: number) {
+        super(message);
+        Object.setPrototypeOf(this, new.target.prototype);
+    }
+}
+
+class Cancellation implements CancellationSignal {
+
+    public cancelled: boolean = false;
+    public reason?: string;
+
+    private callbacks: Array<(reason: string) => void> = [];
+
+    public onCancel(callback: (reason: string) => void): () => void {
+        if (this.cancelled) {
+            callback(this.reason);
+            return () => { /* intentionally empty */ };
+        }
+        this.callbacks.push(callback);
+        return () => this.callbacks = this.callbacks.filter(c => c !== callback);
+    }
+
+    public cancel(reason: string): void {
+        if (this.cancelled) {
+            return;
+        }
+        this.cancelled = true;
+        this.reason = reason;
+        this.callbacks.forEach(c => {
+            try {
+                c(reason);
+            } catch (e) {
+                logger.warn("Cancellation callback failed: %s", e.message);
+            }
+        });
+        this.callbacks = [];
+    }
+}
+
+/**
+ * Cancellation signals and completion of the running handler invocations
+ * by invocation id.  Entries are kept until the handler really finished,
+ * even after it got failed by its timeout, so that a hung handler can
+ * still observe its cancellation and keeps holding its concurrency slot.
+ */
+const invocations = new Map<string, { cancellation: Cancellation, finished: Promise<void> }>();
+
+/**
+ * Return the cancellation signal of the handler invocation running in the
+ * current execution context, if there is one.
+ */
+export function cancellationSignal(): CancellationSignal | undefined {
+    const context = namespace.get();
+    const invocation = context && context.invocationId ? invocations.get(context.invocationId) : undefined;
+    return invocation ? invocation.cancellation : undefined;
+}
+
+/**
+ * Return a promise that resolves once the handler invocation with the
+ * given id finished, even if it already got failed by its timeout.
+ */
+export function invocationFinished(invocationId: string): Promise<void> {
+    const invocation = invocationId ? invocations.get(invocationId) : undefined;
+    return invocation ? invocation.finished : Promise.resolve();
+}
+
+/**
+ * Invoke a handler, failing the returned promise with a {TimeoutError} and
+ * cancelling the signal exposed on the HandlerContext if the handler does
+ * not finish within the timeout.  A missing or zero timeout disables the
+ * deadline but still exposes the cancellation signal.
+ */
+export function invokeWithDeadline<T>(ctx: { invocationId?: string, cancellation?: CancellationSignal },
+                                      timeout: number | undefined,
+                                      description: string,
+                                      invoke: () => Promise<T>): Promise<T> {
+    const cancellation = new Cancellation();
+    ctx.cancellation = cancellation;
+    const finished = new Deferred<void>();
+    if (ctx.invocationId) {
+        invocations.set(ctx.invocationId, { cancellation, finished: finished.promise });
+    }
+
+    let timer: NodeJS.Timer;
+    let invocation: Promise<T>;
+    try {
+        invocation = invoke();
+    } catch (err) {
+        invocation = Promise.reject(err);
+    }
+    const done = () => {
+        clearTimeout(timer);
+        invocations.delete(ctx.invocationId);
+        finished.resolve();
+    };
+    invocation.then(done, done);
+    if (!timeout || timeout <= 0) {
+        return invocation;
+    }
+
+    const deadline = new Promise<T>((resolve, reject) => {
+        timer = setTimeout(() => {
+            const message = `${description} timed out after ${timeout}ms`;
+            cancellation.cancel(message);
+            reject(new TimeoutError(message, timeout));
+        }, timeout);
+    });
+    return Promise.race([invocation, deadline]);
+}
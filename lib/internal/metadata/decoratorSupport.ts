@@ -1,4 +1,5 @@
 import {
+    AccessRule,
     Group,
     ParameterType,
 } from "../../metadata/automationMetadata";
@@ -33,6 +34,18 @@ export interface BaseValue {
     type?: "string" | "number" | "boolean";
 }
 
+/**
+ * Options controlling how invocations of a handler get scheduled
+ */
+export interface InvocationOptions {
+    /** Maximum number of concurrent invocations */
+    readonly concurrency?: number;
+    /** Timeout in milliseconds after which invocations get cancelled */
+    readonly timeout?: number;
+    /** Dispatch priority; invocations with higher priority get dispatched to workers first */
+    readonly priority?: number;
+}
+
 function set_metadata(obj: any, key: string, value: any) {
     let target = obj;
     if (obj.prototype !== undefined) {
@@ -205,12 +218,17 @@ export function declareSecret(target: any, name: string, uri: string) {
     return target;
 }
 
-export function declareCommandHandler(obj: any, description: string, autoSubmit: boolean, intent?: string[]) {
+export function declareCommandHandler(obj: any,
+                                      description: string,
+                                      autoSubmit: boolean,
+                                      intent?: string[],
+                                      options: InvocationOptions = {}) {
     declareRug(obj, "command-handler", description);
     declareIntent(obj, intent);
     if (autoSubmit) {
         declareAutoSubmit(obj, autoSubmit);
     }
+    declareInvocationOptions(obj, options);
     registerCommand(obj);
     return obj;
 }
@@ -230,13 +248,32 @@ function declareRug(obj: any, kind: RugKind, description: string) {
 }
 
 export function declareEventHandler(
-    obj: any, description: string, subscription: string) {
+    obj: any, description: string, subscription: string, options: InvocationOptions = {}) {
     declareRug(obj, "event-handler", description);
     set_metadata(obj, "__subscription", subscription);
+    declareInvocationOptions(obj, options);
     registerEvent(obj);
     return obj;
 }
 
+export function declareInvocationOptions(target: any, options: InvocationOptions): any {
+    if (options.concurrency) {
+        set_metadata(target, "__concurrency", options.concurrency);
+    }
+    if (options.timeout !== undefined) {
+        set_metadata(target, "__timeout", options.timeout);
+    }
+    if (options.priority) {
+        set_metadata(target, "__priority", options.priority);
+    }
+    return target;
+}
+
+export function declareAccess(target: any, access: AccessRule): any {
+    set_metadata(target, "__access", access);
+    return target;
+}
+
 export function declareTags(target: any, tags: string[]) {
     set_metadata(target, "__tags", tags.map(t => ({ name: t, description: t })));
     return target;
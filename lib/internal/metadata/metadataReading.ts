@@ -64,6 +64,10 @@ function metadataFromDecorator(h: any, params: any): CommandHandlerMetadata | Ev
                 tags: params.__tags ? params.__tags : [],
                 intent: params.__intent ? params.__intent : [],
                 auto_submit: params.__autoSubmit,
+                concurrency: params.__concurrency,
+                timeout: params.__timeout,
+                priority: params.__priority,
+                access: params.__access,
                 parameters: parametersFromInstance(params),
                 mapped_parameters: mappedParameterMetadataFromInstance(params),
                 secrets: secretsMetadataFromInstance(params),
@@ -76,6 +80,10 @@ function metadataFromDecorator(h: any, params: any): CommandHandlerMetadata | Ev
                 tags: h.__tags ? h.__tags : [],
                 intent: h.__intent ? h.__intent : [],
                 auto_submit: h.__autoSubmit,
+                concurrency: h.__concurrency,
+                timeout: h.__timeout,
+                priority: h.__priority,
+                access: h.__access,
                 parameters: parametersFromInstance(params),
                 mapped_parameters: mappedParameterMetadataFromInstance(params),
                 secrets: secretsMetadataFromInstance(params),
@@ -92,6 +100,9 @@ function metadataFromDecorator(h: any, params: any): CommandHandlerMetadata | Ev
                 tags: h.__tags ? h.__tags : [],
                 subscription,
                 subscriptionName,
+                concurrency: h.__concurrency,
+                timeout: h.__timeout,
+                priority: h.__priority,
                 secrets: secretsMetadataFromInstance(h),
                 values: valueMetadataFromInstance(h),
             };
@@ -33,12 +33,19 @@ import {
     guid,
     replacer,
 } from "../util/string";
+import {
+    concurrencyKey,
+    concurrencyLimit,
+    handlerConcurrency,
+    releasing,
+} from "./concurrency";
 import {
     CommandIncoming,
     EventIncoming,
     RequestProcessor,
     Source,
 } from "./RequestProcessor";
+import { invokeWithTimeout } from "./timeout";
 import { HandlerResponse } from "./websocket/WebSocketMessageClient";
 
 export abstract class AbstractRequestProcessor implements RequestProcessor {
@@ -60,35 +67,43 @@ export abstract class AbstractRequestProcessor implements RequestProcessor {
 
             this.listeners.forEach(l => l.commandIncoming(command));
 
-            const np = namespace.get();
-            const ci: CommandInvocation = {
-                name: command.command,
-                args: command.parameters,
-                mappedParameters: command.mapped_parameters,
-                secrets: command.secrets,
-            };
-            const ctx: HandlerContext & AutomationContextAware & ConfigurationAware = {
-                workspaceId: command.team.id,
-                source: command.source,
-                correlationId: command.correlation_id,
-                invocationId: np ? np.invocationId : undefined,
-                messageClient: undefined,
-                context: cls,
-                trigger: _.cloneDeep(command),
-                configuration: this.configuration,
-            };
-
-            ctx.graphClient = this.createGraphClient(command, ctx);
-            ctx.messageClient = this.createAndWrapMessageClient(command, ctx);
-            ctx.lifecycle = {
-                registerDisposable: registerDisposable(ctx),
-                dispose: dispose(ctx),
-            };
-
-            this.listeners.forEach(l => l.contextCreated(ctx));
-            this.listeners.forEach(l => l.commandStarting(ci, ctx));
-
-            this.invokeCommand(ci, ctx, command, callback);
+            handlerConcurrency.run(concurrencyKey(command), concurrencyLimit(command, this.automations, this.configuration), () => {
+                const np = namespace.get();
+                const release = releasing(command, callback, np ? np.invocationId : undefined);
+                const ci: CommandInvocation = {
+                    name: command.command,
+                    args: command.parameters,
+                    mappedParameters: command.mapped_parameters,
+                    secrets: command.secrets,
+                };
+                const ctx: HandlerContext & AutomationContextAware & ConfigurationAware = {
+                    workspaceId: command.team.id,
+                    source: command.source,
+                    correlationId: command.correlation_id,
+                    invocationId: np ? np.invocationId : undefined,
+                    messageClient: undefined,
+                    context: cls,
+                    trigger: _.cloneDeep(command),
+                    configuration: this.configuration,
+                };
+
+                try {
+                    ctx.graphClient = this.createGraphClient(command, ctx);
+                    ctx.messageClient = this.createAndWrapMessageClient(command, ctx);
+                    ctx.lifecycle = {
+                        registerDisposable: registerDisposable(ctx),
+                        dispose: dispose(ctx),
+                    };
+
+                    this.listeners.forEach(l => l.contextCreated(ctx));
+                    this.listeners.forEach(l => l.commandStarting(ci, ctx));
+                } catch (err) {
+                    this.handleCommandError(err, command, ci, ctx, release);
+                    return;
+                }
+
+                this.invokeCommand(ci, ctx, command, release);
+            });
         });
     }
 
@@ -104,35 +119,43 @@ export abstract class AbstractRequestProcessor implements RequestProcessor {
 
             this.listeners.forEach(l => l.eventIncoming(event));
 
-            const np = namespace.get();
-            const ef: EventFired<any> = {
-                data: event.data,
-                extensions: {
-                    operationName: event.extensions.operationName,
-                },
-                secrets: event.secrets,
-            };
-            const ctx: HandlerContext & AutomationContextAware & ConfigurationAware = {
-                workspaceId: event.extensions.team_id,
-                correlationId: event.extensions.correlation_id,
-                invocationId: np ? np.invocationId : undefined,
-                messageClient: undefined,
-                context: cls,
-                trigger: _.cloneDeep(event),
-                configuration: this.configuration,
-            };
-
-            ctx.graphClient = this.createGraphClient(event, ctx);
-            ctx.messageClient = this.createAndWrapMessageClient(event, ctx);
-            ctx.lifecycle = {
-                registerDisposable: registerDisposable(ctx),
-                dispose: dispose(ctx),
-            };
-
-            this.listeners.forEach(l => l.contextCreated(ctx));
-            this.listeners.forEach(l => l.eventStarting(ef, ctx));
-
-            this.invokeEvent(ef, ctx, event, callback);
+            handlerConcurrency.run(concurrencyKey(event), concurrencyLimit(event, this.automations, this.configuration), () => {
+                const np = namespace.get();
+                const release = releasing(event, callback, np ? np.invocationId : undefined);
+                const ef: EventFired<any> = {
+                    data: event.data,
+                    extensions: {
+                        operationName: event.extensions.operationName,
+                    },
+                    secrets: event.secrets,
+                };
+                const ctx: HandlerContext & AutomationContextAware & ConfigurationAware = {
+                    workspaceId: event.extensions.team_id,
+                    correlationId: event.extensions.correlation_id,
+                    invocationId: np ? np.invocationId : undefined,
+                    messageClient: undefined,
+                    context: cls,
+                    trigger: _.cloneDeep(event),
+                    configuration: this.configuration,
+                };
+
+                try {
+                    ctx.graphClient = this.createGraphClient(event, ctx);
+                    ctx.messageClient = this.createAndWrapMessageClient(event, ctx);
+                    ctx.lifecycle = {
+                        registerDisposable: registerDisposable(ctx),
+                        dispose: dispose(ctx),
+                    };
+
+                    this.listeners.forEach(l => l.contextCreated(ctx));
+                    this.listeners.forEach(l => l.eventStarting(ef, ctx));
+                } catch (err) {
+                    this.handleEventError(err, event, ef, ctx, release);
+                    return;
+                }
+
+                this.invokeEvent(ef, ctx, event, release);
+            });
         });
     }
 
@@ -201,7 +224,8 @@ export abstract class AbstractRequestProcessor implements RequestProcessor {
 
         logger.debug("Incoming command invocation '%s'", stringify(command, replacer));
         try {
-            this.automations.invokeCommand(ci, ctx)
+            invokeWithTimeout(command, ctx, this.automations, this.configuration,
+                () => this.automations.invokeCommand(ci, ctx))
                 .then(result => {
                     if (!result || !result.hasOwnProperty("code")) {
                         return {
@@ -221,6 +245,7 @@ export abstract class AbstractRequestProcessor implements RequestProcessor {
                         };
                         this.listeners.map(l => () => l.commandSuccessful(ci, ctx, result))
                             .reduce((p, f) => p.then(f), Promise.resolve())
+                            .catch(err => logger.warn("Listener failed for command '%s': %s", command.command, err.message))
                             .then(() => finalize(result));
                     } else {
                         result = {
@@ -229,6 +254,7 @@ export abstract class AbstractRequestProcessor implements RequestProcessor {
                         };
                         this.listeners.map(l => () => l.commandFailed(ci, ctx, result))
                             .reduce((p, f) => p.then(f), Promise.resolve())
+                            .catch(err => logger.warn("Listener failed for command '%s': %s", command.command, err.message))
                             .then(() => finalize(result));
                     }
                 })
@@ -269,7 +295,8 @@ export abstract class AbstractRequestProcessor implements RequestProcessor {
 
         logger.debug("Incoming event subscription '%s'", stringify(event, replacer));
         try {
-            this.automations.onEvent(ef, ctx)
+            invokeWithTimeout(event, ctx, this.automations, this.configuration,
+                () => this.automations.onEvent(ef, ctx))
                 .then(result => {
                     if (!result || result.length === 0) {
                         return [defaultResult(ctx)];
@@ -283,10 +310,14 @@ export abstract class AbstractRequestProcessor implements RequestProcessor {
                     if (!result.some(r => r.code !== 0)) {
                         this.listeners.map(l => () => l.eventSuccessful(ef, ctx, result))
                             .reduce((p, f) => p.then(f), Promise.resolve())
+                            .catch(err => logger.warn("Listener failed for event subscription '%s': %s",
+                                event.extensions.operationName, err.message))
                             .then(() => finalize(result));
                     } else {
                         this.listeners.map(l => () => l.eventFailed(ef, ctx, result))
                             .reduce((p, f) => p.then(f), Promise.resolve())
+                            .catch(err => logger.warn("Listener failed for event subscription '%s': %s",
+                                event.extensions.operationName, err.message))
                             .then(() => finalize(result));
                     }
                 })
@@ -354,21 +385,20 @@ export abstract class AbstractRequestProcessor implements RequestProcessor {
 
         this.listeners.map(l => () => l.commandFailed(ci, ctx, err))
             .reduce((p, f) => p.then(f), Promise.resolve())
+            .catch(error => logger.warn("Listener failed for command '%s': %s", command.command, error.message))
+            .then(() => this.sendCommandStatus(false, result.code, command, ctx))
+            .catch(error => logger.warn("Unable to send status for command: " + stringify(command)))
             .then(() => {
-                return this.sendCommandStatus(false, result.code, command, ctx)
-                    .then(() => {
-                        if (callback) {
-                            callback(Promise.resolve(result));
-                        }
-                        if (err instanceof Error) {
-                            logger.error(`Failed invocation of command '%s': %s`, command.command, err.message);
-                            logger.error(err.stack);
-                        } else {
-                            logger.error(`Failed invocation of command '%s'`, command.command);
-                        }
-                        this.clearNamespace();
-                    })
-                    .catch(error => logger.warn("Unable to send status for command: " + stringify(command)));
+                if (callback) {
+                    callback(Promise.resolve(result));
+                }
+                if (err instanceof Error) {
+                    logger.error(`Failed invocation of command '%s': %s`, command.command, err.message);
+                    logger.error(err.stack);
+                } else {
+                    logger.error(`Failed invocation of command '%s'`, command.command);
+                }
+                this.clearNamespace();
             });
     }
 
@@ -381,23 +411,23 @@ export abstract class AbstractRequestProcessor implements RequestProcessor {
 
         this.listeners.map(l => () => l.eventFailed(ef, ctx, err))
             .reduce((p, f) => p.then(f), Promise.resolve())
+            .catch(error => logger.warn("Listener failed for event subscription '%s': %s",
+                event.extensions.operationName, error.message))
+            .then(() => this.sendEventStatus(false, ef, event, ctx))
+            .catch(error => logger.warn("Unable to send status for event subscription: " + stringify(event)))
             .then(() => {
-                return this.sendEventStatus(false, ef, event, ctx)
-                    .then(() => {
-                        if (callback) {
-                            callback(Promise.resolve(result));
-                        }
-                        if (err instanceof Error) {
-                            logger.error(`Failed invocation of event subscription '%s': %s`,
-                                event.extensions.operationName, err.message);
-                            logger.error(err.stack);
-                        } else {
-                            logger.error(`Failed invocation of event subscription '%s'`,
-                                event.extensions.operationName);
-                        }
-                        this.clearNamespace();
-                    })
-                    .catch(error => logger.warn("Unable to send status for event subscription: " + stringify(event)));
+                if (callback) {
+                    callback(Promise.resolve(result));
+                }
+                if (err instanceof Error) {
+                    logger.error(`Failed invocation of event subscription '%s': %s`,
+                        event.extensions.operationName, err.message);
+                    logger.error(err.stack);
+                } else {
+                    logger.error(`Failed invocation of event subscription '%s'`,
+                        event.extensions.operationName);
+                }
+                this.clearNamespace();
             });
     }
 }
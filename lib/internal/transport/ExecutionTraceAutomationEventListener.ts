@@ -0,0 +1,194 @@
+import * as cluster from "cluster";
+import { LRUMap } from "lru_map";
+import { EventFired } from "../../HandleEvent";
+import { HandlerContext } from "../../HandlerContext";
+import { HandlerResult } from "../../HandlerResult";
+import {
+    AutomationEventListener,
+    AutomationEventListenerSupport,
+} from "../../server/AutomationEventListener";
+import {
+    Destination,
+    MessageOptions,
+} from "../../spi/message/MessageClient";
+import { hideSecrets } from "../event/InMemoryEventStore";
+import { CommandInvocation } from "../invoker/Payload";
+import { workerSend } from "./cluster/messages";
+import {
+    CommandIncoming,
+    EventIncoming,
+} from "./RequestProcessor";
+
+/**
+ * Everything that happened while processing a single incoming command or event.
+ */
+export interface ExecutionTrace {
+
+    correlationId: string;
+    type: "command" | "event";
+    /** Name of the command or operation name of the event subscription */
+    name: string;
+    /** Incoming payload with secrets hidden */
+    payload: CommandIncoming | EventIncoming;
+    /** Timestamp of when the payload was received */
+    start: number;
+    /** Timestamp of when processing finished */
+    end?: number;
+    /** Duration of the processing in milliseconds */
+    duration?: number;
+    status: "running" | "successful" | "failed";
+    result?: any;
+    /**
+     * Lifecycle callbacks in the order they were received; callbacks
+     * reported by a cluster worker carry the id of the worker
+     */
+    lifecycle: Array<{ name: string, ts: number, elapsed: number, worker?: number }>;
+    /** All messages sent while processing */
+    messages: Array<{ ts: number, message: any, destinations: Destination | Destination[], options: MessageOptions }>;
+}
+
+const traces = new LRUMap<string, ExecutionTrace>(100);
+
+/**
+ * Return the trace of the command or event with the given correlation id, if it is still known.
+ */
+export function executionTrace(correlationId: string): ExecutionTrace | undefined {
+    return traces.get(correlationId);
+}
+
+/**
+ * Add a lifecycle callback reported by a cluster worker to the trace kept by the master.
+ * The master fires the starting callbacks already when dispatching the invocation to the
+ * worker; the callback of the worker, which actually starts the handler, replaces that entry.
+ */
+export function recordWorkerLifecycle(correlationId: string, name: string, ts: number, worker: number): void {
+    const trace = traces.get(correlationId);
+    if (trace) {
+        const entry = { name, ts, elapsed: ts - trace.start, worker };
+        const dispatched = trace.lifecycle.findIndex(l => l.name === name && l.worker === undefined);
+        if (dispatched >= 0) {
+            trace.lifecycle[dispatched] = entry;
+        } else {
+            trace.lifecycle.push(entry);
+        }
+    }
+}
+
+/**
+ * AutomationEventListener that stitches the lifecycle callbacks of a command or event
+ * invocation into an {ExecutionTrace} keyed by correlation id.
+ *
+ * In cluster mode the traces are kept by the master serving the traces route.
+ * The master fires the incoming, message and result callbacks on its own
+ * listeners, so listeners running in a worker only forward the starting
+ * callbacks, which tell when the worker actually started the handler.
+ */
+export class ExecutionTraceAutomationEventListener
+    extends AutomationEventListenerSupport implements AutomationEventListener {
+
+    public commandIncoming(payload: CommandIncoming): void {
+        this.start(payload.correlation_id, "command", payload.command, payload);
+    }
+
+    public commandStarting(payload: CommandInvocation, ctx: HandlerContext): void {
+        this.starting(ctx.correlationId, "commandStarting");
+    }
+
+    public commandSuccessful(payload: CommandInvocation, ctx: HandlerContext, result: HandlerResult): Promise<void> {
+        this.finish(ctx.correlationId, "commandSuccessful", result);
+        return Promise.resolve();
+    }
+
+    public commandFailed(payload: CommandInvocation, ctx: HandlerContext, err: any): Promise<void> {
+        this.finish(ctx.correlationId, "commandFailed", err);
+        return Promise.resolve();
+    }
+
+    public eventIncoming(payload: EventIncoming): void {
+        this.start(payload.extensions.correlation_id, "event", payload.extensions.operationName, payload);
+    }
+
+    public eventStarting(payload: EventFired<any>, ctx: HandlerContext): void {
+        this.starting(ctx.correlationId, "eventStarting");
+    }
+
+    public eventSuccessful(payload: EventFired<any>, ctx: HandlerContext, result: HandlerResult[]): Promise<void> {
+        this.finish(ctx.correlationId, "eventSuccessful", result);
+        return Promise.resolve();
+    }
+
+    public eventFailed(payload: EventFired<any>, ctx: HandlerContext, err: any): Promise<void> {
+        this.finish(ctx.correlationId, "eventFailed", err);
+        return Promise.resolve();
+    }
+
+    public messageSending(message: any,
+                          destinations: Destination | Destination[],
+                          options: MessageOptions,
+                          ctx: HandlerContext): Promise<{ message: any, destinations: Destination | Destination[], options: MessageOptions }> {
+        this.record(ctx.correlationId, "messageSending");
+        return super.messageSending(message, destinations, options, ctx);
+    }
+
+    public messageSent(message: any,
+                       destinations: Destination | Destination[],
+                       options: MessageOptions,
+                       ctx: HandlerContext): Promise<void> {
+        const trace = this.record(ctx.correlationId, "messageSent");
+        if (trace) {
+            trace.messages.push({ ts: Date.now(), message, destinations, options });
+        }
+        return Promise.resolve();
+    }
+
+    private start(correlationId: string,
+                  type: "command" | "event",
+                  name: string,
+                  payload: CommandIncoming | EventIncoming): void {
+        if (cluster.isWorker) {
+            return;
+        }
+        const ts = Date.now();
+        traces.set(correlationId, {
+            correlationId,
+            type,
+            name,
+            payload: hideSecrets(payload),
+            start: ts,
+            status: "running",
+            lifecycle: [{ name: `${type}Incoming`, ts, elapsed: 0 }],
+            messages: [],
+        });
+    }
+
+    private starting(correlationId: string, name: string): void {
+        if (cluster.isWorker) {
+            workerSend({ type: "atomist:trace", context: undefined, data: { correlationId, name, ts: Date.now() } })
+                .catch(() => { /* intentionally empty */ });
+        } else {
+            this.record(correlationId, name);
+        }
+    }
+
+    private record(correlationId: string, name: string): ExecutionTrace | undefined {
+        if (cluster.isWorker) {
+            return undefined;
+        }
+        const ts = Date.now();
+        const trace = traces.get(correlationId);
+        if (trace) {
+            trace.lifecycle.push({ name, ts, elapsed: ts - trace.start });
+        }
+        return trace;
+    }
+
+    private finish(correlationId: string, name: string, result: any): void {
+        const trace = this.record(correlationId, name);
+        if (trace) {
+            trace.end = Date.now();
+            trace.duration = trace.end - trace.start;
+            trace.status = name.endsWith("Successful") ? "successful" : "failed";
+            trace.result = result instanceof Error ? { message: result.message, stack: result.stack } : result;
+        }
+    }
+}
@@ -25,6 +25,9 @@ import {
 } from "../../util/health";
 import { registerShutdownHook } from "../../util/shutdown";
 import { AbstractRequestProcessor } from "../AbstractRequestProcessor";
+import { handlerConcurrency } from "../concurrency";
+import { recordWorkerLifecycle } from "../ExecutionTraceAutomationEventListener";
+import { invocationPriority } from "../priority";
 import {
     CommandIncoming,
     EventIncoming,
@@ -49,6 +52,7 @@ import {
 interface MessageType {
     message: MasterMessage;
     dispatched: Dispatched<any>;
+    priority: number;
     ts: number;
 }
 
@@ -69,11 +73,16 @@ export class ClusterMasterRequestProcessor extends AbstractRequestProcessor
             return -1;
         } else if (a.message.type !== "atomist:command" && b.message.type === "atomist:command") {
             return 1;
+        } else if (a.priority !== b.priority) {
+            return b.priority - a.priority;
         } else {
             return a.ts - b.ts;
         }
     });
     private shutdownInitiated: boolean = false;
+    private readonly draining: Set<number> = new Set();
+    private readonly workerStats: Map<number, WorkerStats> = new Map();
+    private forkWorker: () => cluster.Worker;
 
     constructor(protected automations: AutomationServer,
                 protected configuration: Configuration,
@@ -81,7 +90,7 @@ export class ClusterMasterRequestProcessor extends AbstractRequestProcessor
                 protected numWorkers: number = require("os").cpus().length,
                 protected maxConcurrentPerWorker: number = 4) {
         super(automations, configuration, listeners);
-        this.webSocketLifecycle = (configuration.ws as any).lifecycle as WebSocketLifecycle;
+        this.webSocketLifecycle = configuration.ws.lifecycle;
 
         registerHealthIndicator(() => {
             const cmds: string[] = [];
@@ -144,6 +153,38 @@ export class ClusterMasterRequestProcessor extends AbstractRequestProcessor
         this.registration = null;
     }
 
+    /**
+     * Stop assigning commands and events to the worker with the given id, or
+     * to all workers, wait for their in-flight invocations to finish up to
+     * the deadline and replace them with new worker processes.
+     * @param {number} workerId id of the worker to drain; all workers if not provided
+     * @param {number} deadline milliseconds to wait for in-flight invocations
+     * @return {number[]} ids of the workers being drained
+     */
+    public drain(workerId?: number, deadline: number = 60000): number[] {
+        if (this.shutdownInitiated || !this.forkWorker) {
+            return [];
+        }
+        const workers = Object.keys(cluster.workers).map(id => cluster.workers[id])
+            .filter(w => !!w && w.isConnected() && !this.draining.has(w.id))
+            .filter(w => workerId === undefined || w.id === workerId);
+        workers.forEach(worker => {
+            this.draining.add(worker.id);
+            // Start the replacement right away so that no capacity is lost while draining
+            this.forkWorker();
+            this.recycle(worker, deadline)
+                .catch(e => logger.warn(`Failed to recycle worker '${worker.id}': ${e.message}`));
+        });
+        return workers.map(w => w.id);
+    }
+
+    /**
+     * Is there a worker process with the given id
+     */
+    public hasWorker(workerId: number): boolean {
+        return !!cluster.workers[workerId];
+    }
+
     public run(): Promise<any> {
         const ws = () => this.webSocketLifecycle;
 
@@ -157,6 +198,16 @@ export class ClusterMasterRequestProcessor extends AbstractRequestProcessor
                     return;
                 }
 
+                if (msg.type === "atomist:memory") {
+                    this.updateWorkerStats(worker, { rss: msg.data.rss });
+                    return;
+                }
+
+                if (msg.type === "atomist:trace") {
+                    recordWorkerLifecycle(msg.data.correlationId, msg.data.name, msg.data.ts, worker.id);
+                    return;
+                }
+
                 const ses = namespace.create();
                 ses.run(() => {
                     // Only process our messages
@@ -291,6 +342,12 @@ export class ClusterMasterRequestProcessor extends AbstractRequestProcessor
 
         const promises: Array<Promise<any>> = [];
 
+        this.forkWorker = () => {
+            const worker = cluster.fork();
+            attachEvents(worker, new Deferred());
+            return worker;
+        };
+
         for (let i = 0; i < this.numWorkers; i++) {
             const worker = cluster.fork();
 
@@ -310,12 +367,20 @@ export class ClusterMasterRequestProcessor extends AbstractRequestProcessor
         });
 
         cluster.on("exit", (worker, code, signal) => {
-            if (code !== 0 && !this.shutdownInitiated) {
+            this.workerStats.delete(worker.id);
+            if (this.draining.delete(worker.id)) {
+                logger.info(`Drained worker '${worker.id}' exited with '${code}' '${signal}'`);
+            } else if (code !== 0 && !this.shutdownInitiated) {
                 logger.warn(`Worker '${worker.id}' exited with '${code}' '${signal}'. Restarting ...`);
-                attachEvents(cluster.fork(), new Deferred());
+                this.forkWorker();
             }
         });
 
+        process.on("SIGUSR2", () => {
+            logger.info("Received SIGUSR2. Draining all workers ...");
+            this.drain();
+        });
+
         return Promise.all(promises);
     }
 
@@ -331,7 +396,8 @@ export class ClusterMasterRequestProcessor extends AbstractRequestProcessor
         };
 
         const dispatched = new Dispatched(new Deferred<HandlerResult>(), ctx);
-        this.messages.push({ message, dispatched, ts: new Date().getTime() });
+        const priority = invocationPriority(command, this.automations);
+        this.messages.push({ message, dispatched, priority, ts: new Date().getTime() });
         callback(dispatched.result.promise);
 
         this.startMessage();
@@ -349,7 +415,8 @@ export class ClusterMasterRequestProcessor extends AbstractRequestProcessor
         };
 
         const dispatched = new Dispatched(new Deferred<HandlerResult[]>(), ctx);
-        this.messages.push({ message, dispatched, ts: new Date().getTime() });
+        const priority = invocationPriority(event, this.automations);
+        this.messages.push({ message, dispatched, priority, ts: new Date().getTime() });
         callback(dispatched.result.promise);
 
         this.startMessage();
@@ -393,6 +460,8 @@ export class ClusterMasterRequestProcessor extends AbstractRequestProcessor
                 deadEvents.push(k);
             }
         });
+        // Settle invocations of dead workers so that their concurrency slots get released
+        deadEvents.forEach(de => this.events.get(de).dispatched.result.reject([{ code: 1, message: "Worker exited" }]));
         deadEvents.forEach(de => this.events.delete(de));
 
         const deadCommands = [];
@@ -404,15 +473,55 @@ export class ClusterMasterRequestProcessor extends AbstractRequestProcessor
                 deadCommands.push(k);
             }
         });
+        deadCommands.forEach(dc => this.commands.get(dc).dispatched.result.reject({ code: 1, message: "Worker exited" }));
         deadCommands.forEach(dc => this.commands.delete(dc));
 
-        workers = workers.filter(w => w.messages < this.maxConcurrentPerWorker);
+        workers = workers.filter(w => w.messages < this.maxConcurrentPerWorker && !this.draining.has(w.worker.id));
         if (workers.length === 0) {
             return undefined;
         }
         return workers[Math.floor(Math.random() * workers.length)].worker;
     }
 
+    private async recycle(worker: cluster.Worker, deadline: number): Promise<void> {
+        const inFlight = () => [...this.commands.values(), ...this.events.values()].filter(d => d.worker === worker.id).length;
+        logger.info(`Draining worker '${worker.id}' with ${inFlight()} in-flight invocations`);
+
+        const start = Date.now();
+        while (inFlight() > 0 && Date.now() - start < deadline) {
+            await new Promise<void>(resolve => setTimeout(resolve, 250));
+        }
+        if (inFlight() > 0) {
+            logger.warn(`Deadline reached draining worker '${worker.id}'. Abandoning ${inFlight()} in-flight invocations`);
+        }
+        logger.info(`Recycling worker '${worker.id}'`);
+        worker.kill();
+    }
+
+    /**
+     * Record memory usage or invocation count of a worker and recycle the
+     * worker once it exceeds one of the configured thresholds.
+     */
+    private updateWorkerStats(worker: cluster.Worker, update: Partial<WorkerStats>): void {
+        const stats: WorkerStats = { rss: 0, invocations: 0, ...this.workerStats.get(worker.id), ...update };
+        this.workerStats.set(worker.id, stats);
+
+        if (this.draining.has(worker.id)) {
+            return;
+        }
+        const reason = workerRecycleReason(stats, this.configuration.cluster.recycle);
+        if (reason) {
+            logger.info(`Recycling worker '${worker.id}': ${reason}`);
+            const statsd = (this.configuration.statsd as any).__instance as StatsD;
+            if (this.configuration.statsd.enabled && !!statsd) {
+                statsd.event("automation_client.event.worker.recycle", `Recycling worker: ${reason}`, {}, [],
+                    () => { /* intentionally empty */
+                    });
+            }
+            this.drain(worker.id);
+        }
+    }
+
     private startMessage(): void {
         if (this.messages.length > 0) {
             const worker = this.assignWorker();
@@ -439,6 +548,8 @@ export class ClusterMasterRequestProcessor extends AbstractRequestProcessor
                         worker.id);
                 }
                 worker.send(message.message);
+                const stats = this.workerStats.get(worker.id);
+                this.updateWorkerStats(worker, { invocations: (stats ? stats.invocations : 0) + 1 });
             }
         }
         this.reportQueueLength();
@@ -458,7 +569,7 @@ export class ClusterMasterRequestProcessor extends AbstractRequestProcessor
             if (!!statsd) {
                 statsd.gauge(
                     "work_queue.pending",
-                    this.messages.length,
+                    this.messages.length + handlerConcurrency.pending(),
                     1,
                     [],
                     () => { /* intentionally empty */
@@ -482,6 +593,61 @@ export class ClusterMasterRequestProcessor extends AbstractRequestProcessor
     }
 }
 
+/**
+ * Memory usage and number of invocations of a cluster worker
+ */
+export interface WorkerStats {
+    /** Resident set size in bytes */
+    rss: number;
+    /** Number of invocations dispatched to the worker */
+    invocations: number;
+}
+
+/**
+ * Decide if a worker needs to be recycled because it exceeds one of the
+ * configured thresholds.  Returns the reason for recycling the worker or
+ * undefined if it can keep running.
+ */
+export function workerRecycleReason(stats: WorkerStats,
+                                    recycle: { maxRss?: number, maxInvocations?: number } = {}): string | undefined {
+    if (!!recycle.maxRss && stats.rss > recycle.maxRss * 1024 * 1024) {
+        return `RSS of ${(stats.rss / 1024 / 1024).toFixed(2)}mb exceeds ${recycle.maxRss}mb`;
+    } else if (!!recycle.maxInvocations && stats.invocations >= recycle.maxInvocations) {
+        return `${stats.invocations} invocations reached limit of ${recycle.maxInvocations}`;
+    }
+    return undefined;
+}
+
+/**
+ * Options of draining cluster workers
+ */
+export interface DrainOptions {
+    /** Id of the worker to drain; all workers if not provided */
+    worker?: number;
+    /** Milliseconds to wait for in-flight invocations */
+    deadline?: number;
+}
+
+/**
+ * Parse the worker id and deadline of a drain request from its query
+ * parameters.  Throws an error if either of them is provided but not a
+ * positive integer.
+ */
+export function drainOptions(query: { [key: string]: any }): DrainOptions {
+    const options: DrainOptions = {};
+    for (const key of ["worker", "deadline"] as Array<keyof DrainOptions>) {
+        const value = query[key];
+        if (value === undefined) {
+            continue;
+        }
+        if (typeof value !== "string" || !/^[1-9][0-9]*$/.test(value) || !Number.isSafeInteger(+value)) {
+            throw new Error(`Query parameter '${key}' must be a positive integer`);
+        }
+        options[key] = +value;
+    }
+    return options;
+}
+
 class Dispatched<T> {
 
     constructor(public result: Deferred<T>, public context: HandlerContext) {
@@ -223,6 +223,11 @@ export function startWorker(automations: AutomationServer,
             heapDump();
         }
     });
+    // Report memory usage so that the master can recycle workers exceeding their memory threshold
+    setInterval(() => {
+        workerSend({ type: "atomist:memory", context: null, data: process.memoryUsage() })
+            .catch(() => { /* intentionally empty */ });
+    }, 10000).unref();
     return worker;
 }
 
@@ -17,7 +17,8 @@ export interface MasterManagementMessage {
 
 export interface WorkerMessage {
     type: "atomist:online" | "atomist:status" | "atomist:message" | "atomist:command_success"
-        | "atomist:command_failure" | "atomist:event_success" | "atomist:event_failure" | "atomist:shutdown";
+        | "atomist:command_failure" | "atomist:event_success" | "atomist:event_failure" | "atomist:shutdown"
+        | "atomist:memory" | "atomist:trace";
     event?: EventFired<any> | CommandInvocation;
     context: AutomationContext;
     data?: any;
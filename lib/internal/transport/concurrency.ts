@@ -0,0 +1,139 @@
+import { Configuration } from "../../configuration";
+import { AutomationServer } from "../../server/AutomationServer";
+import { logger } from "../../util/logger";
+import { invocationFinished } from "../invoker/cancellation";
+import { Deferred } from "../util/Deferred";
+import {
+    CommandIncoming,
+    EventIncoming,
+    isCommandIncoming,
+} from "./RequestProcessor";
+
+/**
+ * Limits the number of concurrent invocations per handler name.
+ * Invocations exceeding the limit of their handler are queued and
+ * started in FIFO order once running invocations release their slot.
+ */
+export class HandlerConcurrency {
+
+    private readonly running: Map<string, number> = new Map();
+    private readonly waiting: Map<string, Array<Deferred<void>>> = new Map();
+
+    /**
+     * Run the provided function right away if the handler is below its
+     * concurrency limit; otherwise queue it until a slot is released.
+     * Every call to this method has to be matched by a call to release.
+     */
+    public run(name: string, limit: number | undefined, fn: () => void): void {
+        const running = this.running.get(name) || 0;
+        if (!limit || limit <= 0 || running < limit) {
+            this.running.set(name, running + 1);
+            fn();
+            return;
+        }
+
+        logger.debug("Queuing invocation of '%s' as it reached its concurrency limit of %s", name, limit);
+        const deferred = new Deferred<void>();
+        // Registering the continuation here keeps the execution context of the queued invocation
+        deferred.promise
+            .then(fn)
+            .catch(err => logger.error("Failed to start queued invocation of '%s': %s", name, err.message));
+        this.waiting.set(name, [...(this.waiting.get(name) || []), deferred]);
+    }
+
+    /**
+     * Release the slot of a finished invocation, starting the next queued
+     * invocation of the same handler if there is one.
+     */
+    public release(name: string): void {
+        const waiting = this.waiting.get(name) || [];
+        if (waiting.length > 0) {
+            const next = waiting.shift();
+            if (waiting.length === 0) {
+                this.waiting.delete(name);
+            }
+            next.resolve();
+        } else {
+            const running = (this.running.get(name) || 1) - 1;
+            if (running > 0) {
+                this.running.set(name, running);
+            } else {
+                this.running.delete(name);
+            }
+        }
+    }
+
+    /**
+     * Number of queued invocations, optionally only of the given handler
+     */
+    public pending(name?: string): number {
+        if (name) {
+            return (this.waiting.get(name) || []).length;
+        }
+        let pending = 0;
+        this.waiting.forEach(w => pending += w.length);
+        return pending;
+    }
+}
+
+/**
+ * Concurrency limits shared by all request processors of this process
+ */
+export const handlerConcurrency = new HandlerConcurrency();
+
+/**
+ * Name used to limit concurrent invocations of the incoming command or event.
+ * Events are limited per subscription as they might be handled by several handlers.
+ */
+export function concurrencyKey(request: CommandIncoming | EventIncoming): string {
+    return isCommandIncoming(request) ? request.command : request.extensions.operationName;
+}
+
+/**
+ * Find the concurrency limit for the incoming command or event.  Limits
+ * from the concurrency configuration take precedence over limits declared
+ * on the handler.  If several event handlers share a subscription, the
+ * lowest limit applies.
+ */
+export function concurrencyLimit(request: CommandIncoming | EventIncoming,
+                                 automations: AutomationServer,
+                                 configuration: Configuration): number | undefined {
+    const configured = (configuration && configuration.concurrency) || {};
+    const limitOf = (name: string, declared?: number) =>
+        configured[name] !== undefined ? configured[name] : declared;
+
+    if (isCommandIncoming(request)) {
+        const handler = automations.automations.commands.find(c => c.name === request.command);
+        return limitOf(request.command, handler ? handler.concurrency : undefined);
+    } else {
+        const name = request.extensions.operationName;
+        const limits = [
+            configured[name],
+            ...automations.automations.events.filter(e => e.subscriptionName === name)
+                .map(e => limitOf(e.name, e.concurrency)),
+        ].filter(l => l !== undefined && l !== null && l > 0);
+        return limits.length > 0 ? Math.min(...limits) : undefined;
+    }
+}
+
+/**
+ * Wrap the callback of an invocation to release its concurrency slot once the invocation finished.
+ * Handlers that got failed by their timeout keep their slot until they really finished.
+ * The slot is released at most once, even if the callback is invoked several times.
+ */
+export function releasing<T>(request: CommandIncoming | EventIncoming,
+                             callback: (result: Promise<T>) => void,
+                             invocationId?: string): (result: Promise<T>) => void {
+    let released = false;
+    const release = () => {
+        if (!released) {
+            released = true;
+            handlerConcurrency.release(concurrencyKey(request));
+        }
+    };
+    return result => {
+        const finished = invocationFinished(invocationId);
+        result.then(() => finished, () => finished).then(release, release);
+        callback(result);
+    };
+}
@@ -28,6 +28,7 @@ import {
     WebSocketCommandMessageClient,
     WebSocketEventMessageClient,
 } from "../websocket/WebSocketMessageClient";
+import { invocationStream } from "./stream";
 
 /**
  * RequestProcessor implementation used by the Express infrastructure to process
@@ -82,6 +83,10 @@ class ExpressMessageClient implements MessageClient {
     }
 
     public respond(msg: any, options?: MessageOptions): Promise<any> {
+        const stream = invocationStream(this.event);
+        if (stream) {
+            stream.message(msg, undefined, options);
+        }
         if (this.delegate) {
             return this.delegate.respond(msg, options);
         } else {
@@ -90,6 +95,10 @@ class ExpressMessageClient implements MessageClient {
     }
 
     public send(msg: any, destinations: Destination | Destination[], options?: MessageOptions): Promise<any> {
+        const stream = invocationStream(this.event);
+        if (stream) {
+            stream.message(msg, destinations, options);
+        }
         if (this.delegate) {
             return this.delegate.send(msg, destinations, options);
         } else {
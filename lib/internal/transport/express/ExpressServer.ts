@@ -11,12 +11,22 @@ import {
 } from "../../../configuration";
 import * as globals from "../../../globals";
 import { AutomationContextAware } from "../../../HandlerContext";
+import { AccessRule } from "../../../metadata/automationMetadata";
 import { noEventHandlersWereFound } from "../../../server/AbstractAutomationServer";
 import { AutomationServer } from "../../../server/AutomationServer";
 import { GraphClient } from "../../../spi/graph/GraphClient";
 import { MessageClient } from "../../../spi/message/MessageClient";
 import { logger } from "../../../util/logger";
 import { scanFreePort } from "../../../util/port";
+import {
+    ConsoleRequestProcessor,
+    findCommand,
+    findEvent,
+    replayCommand,
+    replayEvent,
+    ReplayOptions,
+    replayOptions,
+} from "../../event/replay";
 import {
     health,
     HealthStatus,
@@ -26,10 +36,38 @@ import {
     gc,
     heapDump,
 } from "../../util/memory";
-import { metrics } from "../../util/metric";
+import {
+    metrics,
+    prometheusMetrics,
+} from "../../util/metric";
 import { guid } from "../../util/string";
+import {
+    ClusterMasterRequestProcessor,
+    drainOptions,
+    DrainOptions,
+} from "../cluster/ClusterMasterRequestProcessor";
+import { executionTrace } from "../ExecutionTraceAutomationEventListener";
 import { RequestProcessor } from "../RequestProcessor";
 import { prepareRegistration } from "../websocket/payloads";
+import { authorizingCommand } from "./authorization";
+import { commandRequestHandler } from "./command";
+import {
+    JwtOptions,
+    jwtStrategy,
+} from "./jwt";
+import { openApiDocument } from "./openapi";
+import {
+    RateLimiter,
+    rateLimiting,
+    RateLimitOptions,
+    registeredHandlerName,
+} from "./rateLimit";
+import {
+    captureRawBody,
+    SignatureOptions,
+    verifyingSignature,
+} from "./signature";
+import { processInvocation } from "./stream";
 
 /**
  * Registers an endpoint for every automation and exposes
@@ -38,14 +76,16 @@ import { prepareRegistration } from "../websocket/payloads";
 export class ExpressServer {
 
     private exp: express.Express;
+    private readonly rateLimiter: RateLimiter;
 
     constructor(private automations: AutomationServer,
                 private configuration: Configuration,
                 private handler: RequestProcessor) {
 
         this.exp = express();
+        this.rateLimiter = new RateLimiter(this.configuration.http.rateLimit || {});
 
-        this.exp.use(bodyParser.json());
+        this.exp.use(bodyParser.json({ verify: captureRawBody }));
         this.exp.use(require("helmet")());
 
         this.exp.use(passport.initialize());
@@ -68,6 +108,12 @@ export class ExpressServer {
                 res.json(info(automations.automations));
             });
 
+        this.exp.options(`${ApiBase}/openapi.json`, cors());
+        this.exp.get(`${ApiBase}/openapi.json`, cors(), this.adminRoute, this.authenticate,
+            (req, res) => {
+                res.json(openApiDocument(automations.automations, this.configuration));
+            });
+
         this.exp.options(`${ApiBase}/registration`, cors());
         this.exp.get(`${ApiBase}/registration`, cors(), this.adminRoute, this.authenticate,
             (req, res) => {
@@ -80,6 +126,12 @@ export class ExpressServer {
                 res.json(metrics());
             });
 
+        this.exp.options(`${ApiBase}/metrics/prometheus`, cors());
+        this.exp.get(`${ApiBase}/metrics/prometheus`, cors(), this.adminRoute, this.authenticate,
+            (req, res) => {
+                res.type("text/plain; version=0.0.4").send(prometheusMetrics());
+            });
+
         this.exp.options(`${ApiBase}/memory/gc`, cors());
         this.exp.put(`${ApiBase}/memory/gc`, cors(), this.adminRoute, this.authenticate,
             (req, res) => {
@@ -94,6 +146,27 @@ export class ExpressServer {
                 res.sendStatus(201);
             });
 
+        this.exp.options(`${ApiBase}/cluster/drain`, cors());
+        this.exp.put(`${ApiBase}/cluster/drain`, cors(), this.adminRoute, this.authenticate,
+            (req, res) => {
+                const client = globals.automationClientInstance();
+                const processor = client ? client.webSocketHandler : undefined;
+                if (!(processor instanceof ClusterMasterRequestProcessor)) {
+                    return res.status(400).json({ message: "Automation client is not running in cluster mode" });
+                }
+                let options: DrainOptions;
+                try {
+                    options = drainOptions(req.query);
+                } catch (e) {
+                    return res.status(400).json({ message: e.message });
+                }
+                if (options.worker !== undefined && !processor.hasWorker(options.worker)) {
+                    return res.status(404).json({ message: `No worker with id '${options.worker}'` });
+                }
+                const workers = processor.drain(options.worker, options.deadline);
+                res.status(202).json({ workers });
+            });
+
         this.exp.options(`${ApiBase}/log/events`, cors());
         this.exp.get(`${ApiBase}/log/events`, cors(), this.adminRoute, this.authenticate,
             (req, res) => {
@@ -124,25 +197,78 @@ export class ExpressServer {
                 res.json(globals.eventStore().commandSeries());
             });
 
-        this.exposeCommandHandlerInvocationRoute(this.exp,
-            `${ApiBase}/command`, cors,
-            (req, res, result) => {
-                if (result.redirect && !req.get("x-atomist-no-redirect")) {
-                    res.redirect(result.redirect);
+        this.exp.options(`${ApiBase}/log/traces/:correlationId`, cors());
+        this.exp.get(`${ApiBase}/log/traces/:correlationId`, cors(), this.adminRoute, this.authenticate,
+            (req, res) => {
+                const trace = executionTrace(req.params.correlationId);
+                if (!!trace) {
+                    res.json(trace);
                 } else {
-                    res.status(result.code === 0 ? 200 : 500).json(result);
+                    res.status(404).json({ message: `No trace for correlation id '${req.params.correlationId}'` });
                 }
             });
 
-        this.exposeEventHandlerInvocationRoute(this.exp,
-            `${ApiBase}/event`, cors,
-            (req, res, result) => {
-                const results = Array.isArray(result) ? result : [result];
-                const code = noEventHandlersWereFound(result) ? 404 :
-                    results.some(r => r.code !== 0) ? 500 : 200;
-                res.status(code).json(result);
+        const handleCommandResult = (req, res, result) => {
+            if (result.redirect && !req.get("x-atomist-no-redirect")) {
+                res.redirect(result.redirect);
+            } else {
+                res.status(result.code === 0 ? 200 : 500).json(result);
+            }
+        };
+
+        const handleEventResult = (req, res, result) => {
+            const results = Array.isArray(result) ? result : [result];
+            const code = noEventHandlersWereFound(result) ? 404 :
+                results.some(r => r.code !== 0) ? 500 : 200;
+            res.status(code).json(result);
+        };
+
+        // Only pass on the known and well-typed replay options of the request body
+        const parsingReplayOptions: express.RequestHandler = (req, res, next) => {
+            try {
+                req.body = replayOptions(req.body);
+                next();
+            } catch (e) {
+                res.status(400).json({ message: e.message });
+            }
+        };
+
+        this.exp.options(`${ApiBase}/log/events/:id/replay`, cors());
+        this.exp.post(`${ApiBase}/log/events/:id/replay`, cors(), this.adminRoute, this.authenticate, parsingReplayOptions,
+            async (req, res) => {
+                const event = findEvent(req.params.id);
+                if (!event) {
+                    res.status(404).json({ message: `No recorded event with id '${req.params.id}'` });
+                    return;
+                }
+                try {
+                    handleEventResult(req, res, await replayEvent(event, this.replayProcessor(req.body), req.body));
+                } catch (e) {
+                    handleEventResult(req, res, e);
+                }
+            });
+
+        this.exp.options(`${ApiBase}/log/commands/:id/replay`, cors());
+        this.exp.post(`${ApiBase}/log/commands/:id/replay`, cors(), this.adminRoute, this.authenticate, parsingReplayOptions,
+            async (req, res) => {
+                const command = findCommand(req.params.id);
+                if (!command) {
+                    res.status(404).json({ message: `No recorded command with id '${req.params.id}'` });
+                    return;
+                }
+                try {
+                    handleCommandResult(req, res, await replayCommand(command, this.replayProcessor(req.body), req.body));
+                } catch (e) {
+                    handleCommandResult(req, res, e);
+                }
             });
 
+        this.exposeCommandHandlerInvocationRoute(this.exp,
+            `${ApiBase}/command`, cors, handleCommandResult);
+
+        this.exposeEventHandlerInvocationRoute(this.exp,
+            `${ApiBase}/event`, cors, handleEventResult);
+
         if (this.configuration.http.customizers.length > 0) {
             logger.debug("Invoking http server customizers");
             this.configuration.http.customizers.forEach(c => c(this.exp, this.authenticate));
@@ -172,17 +298,38 @@ export class ExpressServer {
             });
     }
 
+    /**
+     * Apply the rate limits of the configuration, e.g., after reloading it
+     */
+    public updateRateLimits(): void {
+        this.rateLimiter.update(this.configuration.http.rateLimit || {});
+    }
+
+    private replayProcessor(options: ReplayOptions = {}): RequestProcessor {
+        if (options.console === true) {
+            return new ConsoleRequestProcessor(this.automations, this.configuration, this.configuration.listeners);
+        } else {
+            return this.handler;
+        }
+    }
+
     private exposeCommandHandlerInvocationRoute(exp: express.Express,
                                                 url: string,
                                                 cors,
                                                 handle: (req, res, result) => any) {
 
-        exp.post(url, cors(), this.authenticate,
-            (req, res) => {
-                this.handler.processCommand(req.body, result => {
-                    result.then(r => handle(req, res, r));
-                });
-            });
+        const registered = (name: string) => this.automations.automations.commands.some(c => c.name === name);
+        exp.post(url, cors(), this.authenticateInvocation,
+            rateLimiting(this.rateLimiter, registeredHandlerName(req => req.body.command, registered)),
+            authorizingCommand(this.automations, this.configuration),
+            (req, res) => processInvocation(this.handler, req, res, { command: req.body }, handle));
+
+        exp.options(`${url}/:name`, cors());
+        exp.post(`${url}/:name`, cors(), this.authenticateInvocation,
+            rateLimiting(this.rateLimiter, registeredHandlerName(req => req.params.name, registered)),
+            authorizingCommand(this.automations, this.configuration, req => req.params.name),
+            commandRequestHandler(this.automations, this.configuration,
+                (req, res, command) => processInvocation(this.handler, req, res, { command }, handle)));
     }
 
     private exposeEventHandlerInvocationRoute(exp: express.Express,
@@ -190,12 +337,11 @@ export class ExpressServer {
                                               cors,
                                               handle: (req, res, result) => any) {
 
-        exp.post(url, cors(), this.authenticate,
-            (req, res) => {
-                this.handler.processEvent(req.body, result => {
-                    result.then(r => handle(req, res, r));
-                });
-            });
+        const registered = (name: string) => this.automations.automations.events.some(e => e.subscriptionName === name);
+        exp.post(url, cors(), this.authenticateInvocation,
+            rateLimiting(this.rateLimiter, registeredHandlerName(
+                req => req.body.extensions && req.body.extensions.operationName, registered)),
+            (req, res) => processInvocation(this.handler, req, res, { event: req.body }, handle));
     }
 
     private setupAuthentication() {
@@ -270,7 +416,7 @@ export class ExpressServer {
                     cb(token)
                         .then(valid => {
                             if (valid) {
-                                return done(null, { user: token });
+                                return done(null, { user: token, token });
                             } else {
                                 return done(null, false);
                             }
@@ -282,6 +428,11 @@ export class ExpressServer {
                 },
             ));
         }
+
+        if (this.configuration.http.auth && this.configuration.http.auth.jwt && this.configuration.http.auth.jwt.enabled) {
+            passport.use("jwt", jwtStrategy(this.configuration.http.auth.jwt,
+                this.configuration.http.client ? this.configuration.http.client.factory : undefined));
+        }
     }
 
     private adminRoute = (req, res, next) => {
@@ -290,8 +441,31 @@ export class ExpressServer {
     }
 
     private authenticate = (req, res, next) => {
+        const strategies = this.strategies();
+        if (strategies.length > 0) {
+            passport.authenticate(strategies, { session: false })(req, res, next);
+        } else {
+            next();
+        }
+    }
+
+    /**
+     * Authenticate requests invoking handlers by their payload signature
+     * if signature verification is enabled; unsigned requests fall back
+     * to the other configured authentication strategies.
+     */
+    private readonly authenticateInvocation: express.RequestHandler = (req, res, next) => {
+        const signature = this.configuration.http.auth ? this.configuration.http.auth.signature : undefined;
+        if (signature && signature.enabled === true) {
+            verifyingSignature(signature, this.strategies().length > 0 ? this.authenticate : undefined)(req, res, next);
+        } else {
+            this.authenticate(req, res, next);
+        }
+    }
+
+    private strategies(): string[] {
+        const strategies = [];
         if (this.configuration.http.auth) {
-            const strategies = [];
             if (this.configuration.http.auth.bearer && this.configuration.http.auth.bearer.enabled === true) {
                 strategies.push("bearer");
             }
@@ -301,14 +475,11 @@ export class ExpressServer {
             if (this.configuration.http.auth.token && this.configuration.http.auth.token.enabled === true) {
                 strategies.push("token");
             }
-            if (strategies.length > 0) {
-                passport.authenticate(strategies, { session: false })(req, res, next);
-            } else {
-                next();
+            if (this.configuration.http.auth.jwt && this.configuration.http.auth.jwt.enabled === true) {
+                strategies.push("jwt");
             }
-        } else {
-            next();
         }
+        return strategies;
     }
 }
 
@@ -334,10 +505,16 @@ export interface ExpressServerOptions {
             enabled?: boolean;
             verify?: (token: string) => Promise<boolean>;
         },
+        signature?: SignatureOptions,
+        jwt?: JwtOptions,
+        /** access rules for invoking command handlers over HTTP by handler name */
+        access?: { [command: string]: AccessRule },
     };
     endpoint: {
         graphql: string;
     };
+    /** rate limits of the command and event handler invocation routes */
+    rateLimit?: RateLimitOptions;
     messageClientFactory?: (aca: AutomationContextAware) => MessageClient;
     graphClientFactory?: (aca: AutomationContextAware) => GraphClient;
 }
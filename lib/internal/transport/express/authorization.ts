@@ -0,0 +1,130 @@
+import * as express from "express";
+import * as stringify from "json-stringify-safe";
+import { Configuration } from "../../../configuration";
+import { AccessRule } from "../../../metadata/automationMetadata";
+import {
+    isGitHubOrgMember,
+    isGitHubTeamMember,
+} from "../../../secured";
+import { AutomationServer } from "../../../server/AutomationServer";
+import { logger } from "../../../util/logger";
+
+/**
+ * Caller of an HTTP request as established by the authentication strategies
+ */
+export interface Principal {
+    /** basic auth user name, GitHub login or JWT subject */
+    name?: string;
+    /** JWT claim values */
+    roles: string[];
+    github?: {
+        login: string;
+        token: string;
+    };
+}
+
+/**
+ * Map the user set by the passport strategies onto the request to a principal.
+ */
+export function principalOf(user: any): Principal {
+    if (!user) {
+        return { roles: [] };
+    } else if (user.permissions) {
+        return { name: user.user.sub, roles: user.roles || [] };
+    } else if (user.token && user.user && user.user.login) {
+        return { name: user.user.login, roles: [], github: { login: user.user.login, token: user.token } };
+    } else if (!user.token && typeof user.user === "string") {
+        return { name: user.user, roles: [] };
+    } else {
+        return { roles: [] };
+    }
+}
+
+/**
+ * Find the access rule of the command handler.  Rules configured in
+ * http.auth.access take precedence over rules declared on the handler.
+ */
+export function accessRule(command: string,
+                           automations: AutomationServer,
+                           configuration: Configuration): AccessRule | undefined {
+    const configured = (configuration && configuration.http && configuration.http.auth &&
+        configuration.http.auth.access) || {};
+    if (configured[command]) {
+        return configured[command];
+    }
+    const handler = automations.automations.commands.find(c => c.name === command);
+    return handler ? handler.access : undefined;
+}
+
+/**
+ * Check whether the principal matches any of the conditions of the rule.
+ */
+export async function isAuthorized(principal: Principal, rule: AccessRule): Promise<boolean> {
+    if (principal.name && (rule.users || []).includes(principal.name)) {
+        return true;
+    }
+    if (principal.roles.some(r => (rule.roles || []).includes(r))) {
+        return true;
+    }
+    if (principal.github) {
+        const { login, token } = principal.github;
+        for (const org of rule.githubOrgs || []) {
+            if (await isGitHubOrgMember(org, login, token)) {
+                return true;
+            }
+        }
+        for (const team of rule.githubTeams || []) {
+            const [owner, name] = team.split("/");
+            if (await isGitHubTeamMember(owner, login, name, token)) {
+                return true;
+            }
+        }
+    }
+    return false;
+}
+
+export type CommandName = (req: express.Request) => string | undefined;
+
+/**
+ * Create a middleware enforcing the access rules of command handlers
+ * invoked over HTTP.  Denied invocations are rejected with a 403
+ * response and recorded in the audit log.
+ */
+export function authorizingCommand(automations: AutomationServer,
+                                   configuration: Configuration,
+                                   commandName: CommandName = req => req.body && req.body.command): express.RequestHandler {
+    return (req, res, next) => {
+        const command = commandName(req);
+        const rule = command ? accessRule(command, automations, configuration) : undefined;
+        if (!rule) {
+            return next();
+        }
+        const principal = principalOf((req as any).user);
+        isAuthorized(principal, rule)
+            .catch(err => {
+                logger.warn("Failed to check access to command handler '%s': %s", command, err.message);
+                return false;
+            })
+            .then(authorized => {
+                if (authorized) {
+                    return next();
+                }
+                logger.warn("Audit: %s", stringify({
+                    event: "access_denied",
+                    command,
+                    principal: principal.name || "anonymous",
+                    roles: principal.roles,
+                    ip: req.ip,
+                    path: req.path,
+                    ts: Date.now(),
+                }));
+                res.status(403).json({
+                    code: 403,
+                    message: `Access to command handler '${command}' denied`,
+                    command,
+                    principal: principal.name,
+                });
+            })
+            .catch(next);
+    };
+}
@@ -0,0 +1,141 @@
+import * as Ajv from "ajv";
+import * as express from "express";
+import * as _ from "lodash";
+import { Configuration } from "../../../configuration";
+import { CommandHandlerMetadata } from "../../../metadata/automationMetadata";
+import { AutomationServer } from "../../../server/AutomationServer";
+import { guid } from "../../util/string";
+import { CommandIncoming } from "../RequestProcessor";
+import { commandRequestSchema } from "./openapi";
+
+/**
+ * Validation error of a single field of a command request body
+ */
+export interface FieldError {
+    /** path of the field, e.g., parameters.name */
+    field: string;
+    message: string;
+}
+
+/**
+ * Body of a request invoking a command handler through its REST
+ * endpoint.  Parameters and mapped parameters are keyed by name,
+ * secrets by uri.
+ */
+export interface CommandRequest {
+    parameters?: { [name: string]: string | string[] | number | boolean };
+    mapped_parameters?: { [name: string]: string };
+    secrets?: { [uri: string]: string };
+    team?: {
+        id: string;
+        name?: string;
+    };
+    correlation_id?: string;
+}
+
+/**
+ * Validate the request body against the JSON schema of the command
+ * handler published in the OpenAPI document, returning all field errors.
+ */
+export function validateCommandRequest(handler: CommandHandlerMetadata,
+                                       body: CommandRequest,
+                                       configuration?: Configuration): FieldError[] {
+    let validate = validators.get(handler);
+    if (!validate) {
+        validate = new Ajv({ allErrors: true }).compile(commandRequestSchema(handler));
+        validators.set(handler, validate);
+    }
+    if (!validate(body)) {
+        if (validate.errors.some(e => e.keyword === "type" && e.dataPath === "")) {
+            return [{ field: "", message: "Request body must be a JSON object" }];
+        }
+        return _.uniqWith(validate.errors.map(e => toFieldError(handler, e)), _.isEqual);
+    }
+
+    const workspaceIds = (configuration && configuration.workspaceIds) || [];
+    if (!(body.team && body.team.id) && workspaceIds.length !== 1) {
+        return [{ field: "team.id", message: "Required but missing" }];
+    }
+    return [];
+}
+
+/**
+ * Create the request handler of the per-command REST endpoints.  Looks
+ * up the command handler by the name path parameter, validates the
+ * request body and invokes the handler with the translated command.
+ */
+export function commandRequestHandler(automations: AutomationServer,
+                                      configuration: Configuration,
+                                      invoke: (req: express.Request, res: express.Response, command: CommandIncoming) => void)
+    : express.RequestHandler {
+    return (req, res) => {
+        const handler = automations.automations.commands.find(c => c.name === req.params.name);
+        if (!handler) {
+            res.status(404).json({ message: `No command handler with name '${req.params.name}'` });
+            return;
+        }
+        const errors = validateCommandRequest(handler, req.body, configuration);
+        if (errors.length > 0) {
+            res.status(400).json({ message: `Invalid invocation of command handler '${handler.name}'`, errors });
+            return;
+        }
+        invoke(req, res, toCommandIncoming(handler, req.body, configuration));
+    };
+}
+
+/**
+ * Translate a validated request body into the incoming command
+ * processed by the request processors.
+ */
+export function toCommandIncoming(handler: CommandHandlerMetadata,
+                                  body: CommandRequest,
+                                  configuration?: Configuration): CommandIncoming {
+    const parameters = body.parameters || {};
+    const mappedParameters = body.mapped_parameters || {};
+    const secrets = body.secrets || {};
+    const team = body.team && body.team.id ? body.team : { id: configuration.workspaceIds[0] };
+    return {
+        api_version: "1",
+        correlation_id: body.correlation_id || guid(),
+        command: handler.name,
+        team: { id: team.id, name: team.name },
+        source: undefined,
+        // Multiple choices are passed on as arrays; everything else gets coerced from strings on invocation
+        parameters: Object.keys(parameters).map(name => {
+            const value = parameters[name];
+            return { name, value: Array.isArray(value) ? value as any : `${value}` };
+        }),
+        mapped_parameters: Object.keys(mappedParameters).map(name => ({ name, value: mappedParameters[name] })),
+        secrets: Object.keys(secrets).map(uri => ({ uri, value: secrets[uri] })),
+    };
+}
+
+const validators = new WeakMap<CommandHandlerMetadata, Ajv.ValidateFunction>();
+
+function toFieldError(handler: CommandHandlerMetadata, e: Ajv.ErrorObject): FieldError {
+    const field = e.dataPath.replace(/^\./, "");
+    const params: any = e.params;
+    switch (e.keyword) {
+        case "additionalProperties":
+            return { field: `${field}.${params.additionalProperty}`, message: "Unknown parameter" };
+        case "required":
+            return { field: field ? `${field}.${params.missingProperty}` : params.missingProperty, message: "Required but missing" };
+        case "type":
+            return { field, message: `Must be ${/^[aeiou]/.test(params.type) ? "an" : "a"} ${params.type}` };
+        case "enum":
+            return { field, message: `Must be one of '${params.allowedValues.join("', '")}'` };
+        case "minLength":
+            return { field, message: `Must be at least ${params.limit} characters long` };
+        case "maxLength":
+            return { field, message: `Must be at most ${params.limit} characters long` };
+        case "pattern":
+            const parameter = (handler.parameters || []).find(p => field === `parameters.${p.name}`);
+            return {
+                field,
+                message: parameter && parameter.valid_input ?
+                    `Must be ${parameter.valid_input}` : `Must match pattern '${params.pattern}'`,
+            };
+        default:
+            return { field, message: e.message.replace(/^should/, "Must") };
+    }
+}
@@ -0,0 +1,179 @@
+import * as fs from "fs-extra";
+import * as jwt from "jsonwebtoken";
+import * as jwkToPem from "jwk-to-pem";
+import * as bearer from "passport-http-bearer";
+import {
+    HttpClientFactory,
+    HttpMethod,
+} from "../../../spi/http/httpClient";
+import { logger } from "../../../util/logger";
+
+/**
+ * Options for authenticating requests with JSON Web Tokens issued by
+ * an OpenID Connect provider or any other issuer publishing a JWKS.
+ */
+export interface JwtOptions {
+    enabled?: boolean;
+    /** JSON Web Key Set used to verify token signatures, loaded from a URL or a local file */
+    jwks: {
+        url?: string;
+        file?: string;
+    };
+    /** expected iss claim */
+    issuer?: string | string[];
+    /** expected aud claim */
+    audience?: string | string[];
+    /** accepted signing algorithms, defaults to RS256, RS384, RS512, ES256, ES384 and ES512 */
+    algorithms?: string[];
+    /**
+     * Map claim values to permissions.  Tokens need one of the admin
+     * values in their claim to access admin routes, and one of the
+     * invoke or admin values to invoke handlers.
+     */
+    permissions?: {
+        /** claim holding a space separated string or array of values, defaults to scope */
+        claim?: string;
+        /** defaults to admin */
+        admin?: string[];
+        /** defaults to invoke */
+        invoke?: string[];
+    };
+}
+
+export interface JwtPermissions {
+    admin: boolean;
+    invoke: boolean;
+}
+
+type Jwk = jwkToPem.JWK & {
+    kid?: string;
+    use?: string;
+};
+
+const DefaultAlgorithms = ["RS256", "RS384", "RS512", "ES256", "ES384", "ES512"];
+
+/** Minimum time in milliseconds between reloads of a JWKS URL because of unknown key ids */
+const ReloadInterval = 60000;
+
+/**
+ * Signing keys of a JSON Web Key Set.  Keys loaded from a URL are
+ * reloaded when a token references an unknown key id to pick up
+ * rotated keys.
+ */
+export class JwksKeys {
+
+    private keys: Promise<Jwk[]>;
+    private loaded: number = 0;
+
+    constructor(private readonly jwks: JwtOptions["jwks"],
+                private readonly httpClientFactory?: HttpClientFactory) {
+    }
+
+    /**
+     * Return the PEM encoded public key with the given key id.  If no key
+     * id is provided, the key set has to contain exactly one signing key.
+     */
+    public async key(kid?: string): Promise<string> {
+        let key = this.find(await this.load(), kid);
+        if (!key && !!this.jwks.url && Date.now() - this.loaded > ReloadInterval) {
+            key = this.find(await this.load(true), kid);
+        }
+        if (!key) {
+            throw new Error(kid ? `No signing key with id '${kid}'` : "No unique signing key");
+        }
+        return jwkToPem(key);
+    }
+
+    private find(keys: Jwk[], kid?: string): Jwk | undefined {
+        // Only RSA and EC keys convert to PEM
+        const signing = keys.filter(k => (k.kty === "RSA" || k.kty === "EC") && (!k.use || k.use === "sig"));
+        return kid ? signing.find(k => k.kid === kid) : (signing.length === 1 ? signing[0] : undefined);
+    }
+
+    private load(reload: boolean = false): Promise<Jwk[]> {
+        if (!this.keys || reload) {
+            this.loaded = Date.now();
+            this.keys = this.fetch()
+                .catch(err => {
+                    this.keys = undefined;
+                    throw err;
+                });
+        }
+        return this.keys;
+    }
+
+    private async fetch(): Promise<Jwk[]> {
+        let jwks: { keys?: Jwk[] };
+        if (this.jwks.file) {
+            jwks = await fs.readJson(this.jwks.file);
+        } else if (this.jwks.url && this.httpClientFactory) {
+            const response = await this.httpClientFactory.create(this.jwks.url)
+                .exchange<{ keys: Jwk[] }>(this.jwks.url, { method: HttpMethod.Get });
+            jwks = response.body;
+        } else {
+            throw new Error("No JWKS url or file configured");
+        }
+        return (jwks && jwks.keys) || [];
+    }
+}
+
+/**
+ * Verify signature and claims of the token, returning its claims.
+ */
+export async function verifyJwt(token: string, keys: JwksKeys, options: JwtOptions): Promise<Record<string, any>> {
+    const decoded = jwt.decode(token, { complete: true }) as { header: { kid?: string } };
+    if (!decoded || !decoded.header) {
+        throw new Error("Malformed token");
+    }
+    const key = await keys.key(decoded.header.kid);
+    return jwt.verify(token, key, {
+        algorithms: options.algorithms || DefaultAlgorithms,
+        issuer: options.issuer,
+        audience: options.audience,
+    }) as Record<string, any>;
+}
+
+/**
+ * Return the values of the claim mapped to permissions.
+ */
+export function jwtRoles(claims: Record<string, any>, options: JwtOptions): string[] {
+    const value = claims[(options.permissions && options.permissions.claim) || "scope"];
+    return Array.isArray(value) ? value.map(v => `${v}`) :
+        (typeof value === "string" ? value.split(" ").filter(v => !!v) : []);
+}
+
+/**
+ * Map the claims of a verified token to admin and invoke permissions.
+ */
+export function jwtPermissions(claims: Record<string, any>, options: JwtOptions): JwtPermissions {
+    const permissions = options.permissions || {};
+    const values = jwtRoles(claims, options);
+    const admin = values.some(v => (permissions.admin || ["admin"]).includes(v));
+    const invoke = admin || values.some(v => (permissions.invoke || ["invoke"]).includes(v));
+    return { admin, invoke };
+}
+
+/**
+ * Create a passport strategy authenticating bearer JWTs.  Admin routes
+ * require the admin permission, all other routes the invoke permission.
+ */
+export function jwtStrategy(options: JwtOptions, httpClientFactory?: HttpClientFactory): bearer.Strategy {
+    const keys = new JwksKeys(options.jwks, httpClientFactory);
+    const strategyOptions: bearer.IStrategyOptions = { passReqToCallback: true, realm: "Users", scope: undefined };
+    return new bearer.Strategy(strategyOptions,
+        (req, token, done) => {
+            verifyJwt(token, keys, options)
+                .then(claims => {
+                    const permissions = jwtPermissions(claims, options);
+                    if (req.__admin === true ? permissions.admin : permissions.invoke) {
+                        return done(null, { token, user: claims, permissions, roles: jwtRoles(claims, options) });
+                    } else {
+                        return done(null, false);
+                    }
+                })
+                .catch(err => {
+                    logger.debug("Rejecting JWT: %s", err.message);
+                    return done(null, false);
+                });
+        });
+}
@@ -0,0 +1,214 @@
+import { Configuration } from "../../../configuration";
+import {
+    CommandHandlerMetadata,
+    FreeChoices,
+    Parameter,
+} from "../../../metadata/automationMetadata";
+import { Automations } from "../../metadata/metadata";
+import { info } from "../../util/info";
+
+/**
+ * JSON schema of a single command handler parameter
+ */
+export function parameterSchema(p: Parameter): any {
+    const schema: any = {
+        description: p.description,
+        title: p.display_name,
+    };
+    const type: any = p.type;
+    if (!type || type === "string") {
+        schema.type = "string";
+        schema.pattern = p.pattern;
+        schema.minLength = nonNegative(p.min_length);
+        schema.maxLength = nonNegative(p.max_length);
+        schema.default = p.default_value;
+    } else if (type === "number") {
+        schema.type = "number";
+        schema.default = p.default_value !== undefined && !isNaN(+p.default_value) ? +p.default_value : undefined;
+    } else if (type === "boolean") {
+        schema.type = "boolean";
+        schema.default = p.default_value !== undefined ? p.default_value === "true" : undefined;
+    } else if (type === FreeChoices) {
+        schema.type = "array";
+        schema.items = { type: "string" };
+    } else {
+        const options: string[] = (type.options || type.choices || []).map(o => o.value);
+        if (type.kind === "single" || type.pickOne === true) {
+            schema.type = "string";
+            schema.enum = options;
+            schema.default = p.default_value;
+        } else {
+            schema.type = "array";
+            schema.items = { type: "string", enum: options };
+        }
+    }
+    return prune(schema);
+}
+
+/**
+ * JSON schema of the request body invoking a command handler through
+ * its REST endpoint
+ */
+export function commandRequestSchema(c: CommandHandlerMetadata): any {
+    const parameters = c.parameters || [];
+    const mappedParameters = c.mapped_parameters || [];
+    const secrets = c.secrets || [];
+
+    const properties: any = {
+        parameters: objectSchema(parameters.map(p => [p.name, parameterSchema(p)] as [string, any]),
+            parameters.filter(p => p.required && p.default_value === undefined).map(p => p.name), false),
+        mapped_parameters: objectSchema(mappedParameters.map(mp =>
+                [mp.name, { type: "string", description: mp.uri }] as [string, any]),
+            mappedParameters.filter(mp => mp.required).map(mp => mp.name), false),
+        secrets: objectSchema(secrets.map(s => [s.uri, { type: "string", description: s.name }] as [string, any]), []),
+        team: {
+            type: "object",
+            description: "Workspace to run the command in; defaults to the single configured workspace",
+            properties: {
+                id: { type: "string" },
+                name: { type: "string" },
+            },
+            required: ["id"],
+        },
+        correlation_id: { type: "string" },
+    };
+    const required = [];
+    if (properties.parameters.required) {
+        required.push("parameters");
+    }
+    if (properties.mapped_parameters.required) {
+        required.push("mapped_parameters");
+    }
+    return required.length > 0 ? { type: "object", properties, required } : { type: "object", properties };
+}
+
+/**
+ * Generate an OpenAPI 3 document describing the REST endpoints invoking
+ * the registered command handlers.
+ */
+export function openApiDocument(automations: Automations, configuration: Configuration): any {
+    const i = info(automations);
+    const schemas: any = {
+        HandlerResult: {
+            type: "object",
+            properties: {
+                code: { type: "integer" },
+                message: { type: "string" },
+                redirect: { type: "string" },
+            },
+        },
+        Error: {
+            type: "object",
+            properties: {
+                message: { type: "string" },
+                errors: {
+                    type: "array",
+                    items: {
+                        type: "object",
+                        properties: {
+                            field: { type: "string" },
+                            message: { type: "string" },
+                        },
+                    },
+                },
+            },
+        },
+    };
+    const paths: any = {};
+
+    automations.commands.forEach(c => {
+        const schema = `${schemaName(c.name)}Request`;
+        schemas[schema] = commandRequestSchema(c);
+        paths[`/command/${c.name}`] = {
+            post: prune({
+                operationId: c.name,
+                summary: c.description,
+                tags: (c.tags || []).length > 0 ? c.tags.map(t => t.name) : undefined,
+                requestBody: {
+                    required: true,
+                    content: { "application/json": { schema: { $ref: `#/components/schemas/${schema}` } } },
+                },
+                responses: {
+                    200: {
+                        description: "Command handler succeeded",
+                        content: {
+                            "application/json": { schema: { $ref: "#/components/schemas/HandlerResult" } },
+                            "text/event-stream": { schema: { type: "string" } },
+                            "application/x-ndjson": { schema: { type: "string" } },
+                        },
+                    },
+                    400: {
+                        description: "Invalid parameters",
+                        content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } },
+                    },
+                    401: { description: "Unauthenticated" },
+                    403: { description: "Access denied" },
+                    429: { description: "Rate limit exceeded" },
+                    500: {
+                        description: "Command handler failed",
+                        content: { "application/json": { schema: { $ref: "#/components/schemas/HandlerResult" } } },
+                    },
+                },
+            }),
+        };
+    });
+
+    const securitySchemes = securitySchemesOf(configuration);
+    return prune({
+        openapi: "3.0.0",
+        info: {
+            title: automations.name,
+            version: automations.version,
+            description: i.description,
+        },
+        paths,
+        components: {
+            schemas,
+            securitySchemes: Object.keys(securitySchemes).length > 0 ? securitySchemes : undefined,
+        },
+        security: Object.keys(securitySchemes).length > 0 ?
+            Object.keys(securitySchemes).map(s => ({ [s]: [] })) : undefined,
+    });
+}
+
+function securitySchemesOf(configuration: Configuration): any {
+    const auth = (configuration && configuration.http && configuration.http.auth) || {};
+    const schemes: any = {};
+    if (auth.basic && auth.basic.enabled) {
+        schemes.basic = { type: "http", scheme: "basic" };
+    }
+    if ((auth.bearer && auth.bearer.enabled) || (auth.jwt && auth.jwt.enabled)) {
+        schemes.bearer = { type: "http", scheme: "bearer" };
+    }
+    return schemes;
+}
+
+function objectSchema(properties: Array<[string, any]>,
+                      required: string[],
+                      additionalProperties: boolean = true): any {
+    const schema: any = { type: "object", properties: {} };
+    properties.forEach(([name, property]) => schema.properties[name] = property);
+    if (required.length > 0) {
+        schema.required = required;
+    }
+    if (!additionalProperties) {
+        schema.additionalProperties = false;
+    }
+    return schema;
+}
+
+/**
+ * Negative lengths declare no limit
+ */
+function nonNegative(n: number): number | undefined {
+    return typeof n === "number" && n >= 0 ? n : undefined;
+}
+
+function schemaName(name: string): string {
+    return name.replace(/[^a-zA-Z0-9._-]/g, "_");
+}
+
+function prune(obj: any): any {
+    Object.keys(obj).filter(k => obj[k] === undefined).forEach(k => delete obj[k]);
+    return obj;
+}
@@ -0,0 +1,195 @@
+import * as express from "express";
+import { logger } from "../../../util/logger";
+import { increment } from "../../util/metric";
+import { principalOf } from "./authorization";
+
+/**
+ * Token bucket rate limit
+ */
+export interface RateLimit {
+    /** number of requests per second the bucket gets refilled with */
+    rate: number;
+    /** maximum number of requests in a burst, defaults to rate but at least 1 */
+    burst?: number;
+}
+
+/**
+ * Rate limits for the command and event handler invocation routes.  A
+ * request has to pass every applicable limit to be accepted.
+ */
+export interface RateLimitOptions {
+    enabled?: boolean;
+    /** limit across all requests */
+    global?: RateLimit;
+    /** limit per client identity, i.e., authenticated user or IP address */
+    client?: RateLimit;
+    /** limit per handler, unless configured in handlers */
+    handler?: RateLimit;
+    /** limits of individual handlers by name */
+    handlers?: { [name: string]: RateLimit };
+}
+
+/**
+ * Token bucket holding up to burst tokens, refilled at rate tokens per second
+ */
+export class TokenBucket {
+
+    private tokens: number;
+    private updated: number;
+
+    constructor(private readonly limit: RateLimit, now: number = Date.now()) {
+        this.tokens = this.capacity;
+        this.updated = now;
+    }
+
+    /**
+     * Milliseconds to wait until a token is available; 0 if there is one
+     */
+    public wait(now: number = Date.now()): number {
+        this.refill(now);
+        return this.tokens >= 1 ? 0 : Math.ceil((1 - this.tokens) / this.limit.rate * 1000);
+    }
+
+    public full(now: number = Date.now()): boolean {
+        this.refill(now);
+        return this.tokens >= this.capacity;
+    }
+
+    public take(now: number = Date.now()): void {
+        this.refill(now);
+        this.tokens -= 1;
+    }
+
+    private get capacity(): number {
+        return Math.max(1, this.limit.burst || this.limit.rate);
+    }
+
+    private refill(now: number): void {
+        this.tokens = Math.min(this.capacity, this.tokens + (now - this.updated) / 1000 * this.limit.rate);
+        this.updated = now;
+    }
+}
+
+export type RateLimitScope = "global" | "client" | "handler";
+
+/** Number of buckets after which the least recently used buckets get dropped */
+const MaxBuckets = 10000;
+
+/** Key of the handler bucket shared by all requests naming a handler that isn't registered */
+export const UnregisteredHandler = "<unregistered>";
+
+/**
+ * Rate limiter keeping token buckets per scope and key
+ */
+export class RateLimiter {
+
+    private readonly buckets: Map<string, TokenBucket> = new Map();
+
+    constructor(private options: RateLimitOptions,
+                private readonly maxBuckets: number = MaxBuckets) {
+    }
+
+    /**
+     * Apply new rate limits, e.g., after reloading the configuration,
+     * starting with full buckets
+     */
+    public update(options: RateLimitOptions): void {
+        this.options = options;
+        this.buckets.clear();
+    }
+
+    /**
+     * Take a token from every bucket applicable to the request if all of
+     * them have one available.  Otherwise no token is taken and the scope
+     * and time to wait of the most restrictive limit are returned.
+     */
+    public acquire(client: string,
+                   handler: string | undefined,
+                   now: number = Date.now()): { scope: RateLimitScope, wait: number } | undefined {
+        if (!this.options.enabled) {
+            return undefined;
+        }
+        const handlerLimit = handler ? (this.options.handlers || {})[handler] || this.options.handler : undefined;
+        const buckets: Array<{ scope: RateLimitScope, bucket: TokenBucket }> = [
+            { scope: "global", bucket: this.bucket("global", "", this.options.global, now) },
+            { scope: "handler", bucket: this.bucket("handler", handler, handlerLimit, now) },
+            { scope: "client", bucket: this.bucket("client", client, this.options.client, now) },
+        ];
+
+        const limited = buckets.filter(b => !!b.bucket)
+            .map(b => ({ scope: b.scope, wait: b.bucket.wait(now) }))
+            .filter(l => l.wait > 0)
+            .sort((l1, l2) => l2.wait - l1.wait);
+        if (limited.length > 0) {
+            return limited[0];
+        }
+        buckets.filter(b => !!b.bucket).forEach(b => b.bucket.take(now));
+        return undefined;
+    }
+
+    private bucket(scope: RateLimitScope, key: string, limit: RateLimit, now: number): TokenBucket | undefined {
+        if (!limit || !(limit.rate > 0)) {
+            return undefined;
+        }
+        const id = `${scope}:${key}`;
+        let bucket = this.buckets.get(id);
+        if (bucket) {
+            // Re-insert to keep the buckets ordered from least to most recently used
+            this.buckets.delete(id);
+        } else {
+            this.prune();
+            bucket = new TokenBucket(limit, now);
+        }
+        this.buckets.set(id, bucket);
+        return bucket;
+    }
+
+    /**
+     * Drop the least recently used buckets to make room for a new one
+     */
+    private prune(): void {
+        const ids = this.buckets.keys();
+        while (this.buckets.size >= this.maxBuckets) {
+            this.buckets.delete(ids.next().value);
+        }
+    }
+}
+
+export type HandlerName = (req: express.Request) => string | undefined;
+
+/**
+ * Map handler names taken from the request that aren't registered to a
+ * single shared key, so that callers can't create a bucket per made-up name
+ */
+export function registeredHandlerName(handlerName: HandlerName, registered: (name: string) => boolean): HandlerName {
+    return req => {
+        const name = handlerName(req);
+        if (!name) {
+            return undefined;
+        }
+        return registered(name) ? name : UnregisteredHandler;
+    };
+}
+
+/**
+ * Create a middleware rejecting requests exceeding the rate limits with a
+ * 429 response carrying a Retry-After header.
+ */
+export function rateLimiting(limiter: RateLimiter, handlerName: HandlerName): express.RequestHandler {
+    return (req, res, next) => {
+        const client = principalOf((req as any).user).name || req.ip;
+        const handler = handlerName(req);
+        const limited = limiter.acquire(client, handler);
+        if (!limited) {
+            return next();
+        }
+        logger.debug("Rate limiting request to '%s' by '%s' exceeding %s limit", req.path, client, limited.scope);
+        increment(`http.rate_limited.${limited.scope}`);
+        increment("http_rate_limited", { scope: limited.scope, handler: handler || "" });
+        res.setHeader("Retry-After", `${Math.ceil(limited.wait / 1000)}`);
+        res.status(429).json({
+            message: `Rate limit exceeded, retry after ${Math.ceil(limited.wait / 1000)}s`,
+            scope: limited.scope,
+        });
+    };
+}
@@ -0,0 +1,146 @@
+import * as crypto from "crypto";
+import * as express from "express";
+import { logger } from "../../../util/logger";
+
+/**
+ * Options for verifying HMAC signatures of payloads posted to the
+ * command and event handler invocation routes.
+ */
+export interface SignatureOptions {
+    enabled?: boolean;
+    /** Verify GitHub-style signatures sent in the X-Hub-Signature-256 header */
+    github?: {
+        secret: string;
+    };
+    /**
+     * Verify signatures computed with a shared secret over the
+     * timestamp and the raw request body, i.e., HMAC(`${timestamp}.${body}`)
+     */
+    hmac?: {
+        secret: string;
+        /** header carrying the hex encoded signature, defaults to x-signature */
+        header?: string;
+        /** HMAC digest algorithm, defaults to sha256 */
+        algorithm?: string;
+        /** header carrying the signing time in seconds since epoch, defaults to x-signature-timestamp */
+        timestampHeader?: string;
+        /**
+         * Maximum age and clock skew of the signing time in seconds,
+         * defaults to 300.  Set to 0 to sign the raw body only and
+         * disable replay protection.
+         */
+        tolerance?: number;
+    };
+}
+
+export type SignatureVerification = { verified: true } | { verified: false, reason: string };
+
+export type Headers = Record<string, string | string[] | undefined>;
+
+const GitHubSignatureHeader = "x-hub-signature-256";
+const DefaultSignatureHeader = "x-signature";
+const DefaultTimestampHeader = "x-signature-timestamp";
+const DefaultTolerance = 300;
+
+/**
+ * Body parser verify callback keeping the raw request body around so
+ * that signatures can be verified over the exact bytes received.
+ */
+export function captureRawBody(req: any, res: any, buf: Buffer): void {
+    req.rawBody = buf;
+}
+
+/**
+ * Does the request carry a signature for one of the enabled schemes?
+ */
+export function hasSignature(headers: Headers, options: SignatureOptions): boolean {
+    return (!!options.github && !!header(headers, GitHubSignatureHeader)) ||
+        (!!options.hmac && !!header(headers, options.hmac.header || DefaultSignatureHeader));
+}
+
+/**
+ * Verify the signature of the raw request body against the enabled
+ * schemes.  The request is verified if the signature of any scheme it
+ * carries matches.
+ */
+export function verifySignature(headers: Headers,
+                                body: Buffer,
+                                options: SignatureOptions,
+                                now: number = Date.now()): SignatureVerification {
+    const failures: string[] = [];
+
+    if (options.github && header(headers, GitHubSignatureHeader)) {
+        const signature = header(headers, GitHubSignatureHeader);
+        if (matches(signature, hmac("sha256", options.github.secret, body), "sha256")) {
+            return { verified: true };
+        }
+        failures.push(`Invalid ${GitHubSignatureHeader} signature`);
+    }
+
+    if (options.hmac && header(headers, options.hmac.header || DefaultSignatureHeader)) {
+        const name = options.hmac.header || DefaultSignatureHeader;
+        const algorithm = options.hmac.algorithm || "sha256";
+        const tolerance = options.hmac.tolerance !== undefined ? options.hmac.tolerance : DefaultTolerance;
+        let payload = body;
+
+        if (tolerance > 0) {
+            const timestampHeader = options.hmac.timestampHeader || DefaultTimestampHeader;
+            const timestamp = header(headers, timestampHeader);
+            if (!timestamp || !/^\d+$/.test(timestamp)) {
+                failures.push(`Missing or invalid ${timestampHeader} header`);
+                return { verified: false, reason: failures.join(", ") };
+            } else if (Math.abs(now / 1000 - +timestamp) > tolerance) {
+                failures.push(`Signature timestamp outside of tolerance of ${tolerance}s`);
+                return { verified: false, reason: failures.join(", ") };
+            }
+            payload = Buffer.concat([Buffer.from(`${timestamp}.`), body]);
+        }
+
+        if (matches(header(headers, name), hmac(algorithm, options.hmac.secret, payload), algorithm)) {
+            return { verified: true };
+        }
+        failures.push(`Invalid ${name} signature`);
+    }
+
+    return { verified: false, reason: failures.length > 0 ? failures.join(", ") : "Missing signature" };
+}
+
+/**
+ * Create a middleware verifying signed requests.  Requests without
+ * signature are passed on to the fallback authentication if there is
+ * any; otherwise they are rejected.  Requests failing verification are
+ * rejected with a 401 response stating the reason.
+ */
+export function verifyingSignature(options: SignatureOptions,
+                                   fallback?: express.RequestHandler): express.RequestHandler {
+    return (req, res, next) => {
+        if (!hasSignature(req.headers, options) && fallback) {
+            return fallback(req, res, next);
+        }
+        const verification = verifySignature(req.headers, (req as any).rawBody || Buffer.alloc(0), options);
+        if (verification.verified === true) {
+            (req as any).user = { signature: true };
+            return next();
+        }
+        logger.debug("Rejecting request to '%s': %s", req.path, verification.reason);
+        res.status(401).json({ message: verification.reason });
+    };
+}
+
+function header(headers: Headers, name: string): string | undefined {
+    const value = headers[name.toLowerCase()];
+    return Array.isArray(value) ? value[0] : value;
+}
+
+function hmac(algorithm: string, secret: string, payload: Buffer): Buffer {
+    return crypto.createHmac(algorithm, secret).update(payload).digest();
+}
+
+function matches(signature: string, expected: Buffer, algorithm: string): boolean {
+    const hex = signature.startsWith(`${algorithm}=`) ? signature.slice(algorithm.length + 1) : signature;
+    if (!/^[0-9a-f]+$/i.test(hex)) {
+        return false;
+    }
+    const actual = Buffer.from(hex, "hex");
+    return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
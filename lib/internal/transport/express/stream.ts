@@ -0,0 +1,136 @@
+import * as express from "express";
+import * as stringify from "json-stringify-safe";
+import {
+    Destination,
+    MessageOptions,
+} from "../../../spi/message/MessageClient";
+import { guid } from "../../util/string";
+import {
+    CommandIncoming,
+    EventIncoming,
+    isCommandIncoming,
+    RequestProcessor,
+} from "../RequestProcessor";
+
+/**
+ * Formats of streamed invocation responses: Server-Sent Events or newline delimited JSON
+ */
+export type StreamFormat = "sse" | "ndjson";
+
+/**
+ * Determine the requested stream format from the Accept header or the
+ * stream query parameter.  Returns undefined if the caller did not ask
+ * for a streamed response.
+ */
+export function streamFormat(req: express.Request): StreamFormat | undefined {
+    if (req.query.stream === "sse" || req.query.stream === "ndjson") {
+        return req.query.stream;
+    }
+    const accept = req.get("accept") || "";
+    if (accept.includes("text/event-stream")) {
+        return "sse";
+    } else if (accept.includes("application/x-ndjson")) {
+        return "ndjson";
+    }
+    return undefined;
+}
+
+/**
+ * Streams all messages sent by the handlers of an invocation, followed
+ * by the invocation result, to the HTTP response.
+ */
+export class InvocationStream {
+
+    private closed: boolean = false;
+
+    constructor(private readonly res: express.Response,
+                private readonly format: StreamFormat) {
+        res.status(200);
+        res.setHeader("Content-Type", format === "sse" ? "text/event-stream" : "application/x-ndjson");
+        res.setHeader("Cache-Control", "no-cache");
+        res.setHeader("X-Accel-Buffering", "no");
+        res.on("close", () => this.closed = true);
+        res.flushHeaders();
+    }
+
+    public message(message: any, destinations?: Destination | Destination[], options?: MessageOptions): void {
+        this.write("message", { message, destinations, options });
+    }
+
+    public result(result: any): void {
+        this.write("result", { result });
+        this.closed = true;
+        this.res.end();
+    }
+
+    private write(type: string, data: any): void {
+        if (this.closed) {
+            return;
+        }
+        if (this.format === "sse") {
+            this.res.write(`event: ${type}\ndata: ${stringify(data)}\n\n`);
+        } else {
+            this.res.write(`${stringify({ type, ...data })}\n`);
+        }
+    }
+}
+
+const streams = new Map<string, InvocationStream>();
+
+function correlationId(request: CommandIncoming | EventIncoming): string {
+    return isCommandIncoming(request) ? request.correlation_id : request.extensions.correlation_id;
+}
+
+/**
+ * Start streaming the invocation of the incoming command or event to the
+ * response.  Assigns a correlation id to the request if it doesn't carry
+ * one, as messages get routed to the stream by correlation id.
+ */
+export function streamInvocation(request: CommandIncoming | EventIncoming,
+                                 res: express.Response,
+                                 format: StreamFormat): (result: any) => void {
+    if (!correlationId(request)) {
+        if (isCommandIncoming(request)) {
+            request.correlation_id = guid();
+        } else {
+            request.extensions.correlation_id = guid();
+        }
+    }
+    const id = correlationId(request);
+    const stream = new InvocationStream(res, format);
+    streams.set(id, stream);
+    res.on("close", () => streams.delete(id));
+    return result => {
+        streams.delete(id);
+        stream.result(result);
+    };
+}
+
+/**
+ * Return the stream of the invocation the incoming command or event
+ * belongs to, if its caller asked for a streamed response.
+ */
+export function invocationStream(request: CommandIncoming | EventIncoming): InvocationStream | undefined {
+    const id = correlationId(request);
+    return id ? streams.get(id) : undefined;
+}
+
+/**
+ * Process the incoming command or event, either streaming messages and
+ * result to the response if the caller asked for it or handing the result
+ * to the provided callback.
+ */
+export function processInvocation(processor: RequestProcessor,
+                                  req: express.Request,
+                                  res: express.Response,
+                                  request: { command?: CommandIncoming, event?: EventIncoming },
+                                  handle: (req: express.Request, res: express.Response, result: any) => any): void {
+    const format = streamFormat(req);
+    const end = format ? streamInvocation(request.command || request.event, res, format) : undefined;
+    const callback = result => end ? result.then(end, end) : result.then(r => handle(req, res, r));
+    if ("command" in request) {
+        processor.processCommand(request.command, callback);
+    } else {
+        processor.processEvent(request.event, callback);
+    }
+}
@@ -0,0 +1,25 @@
+import { AutomationServer } from "../../server/AutomationServer";
+import {
+    CommandIncoming,
+    EventIncoming,
+    isCommandIncoming,
+} from "./RequestProcessor";
+
+/**
+ * Find the dispatch priority of the incoming command or event as declared
+ * on its handler.  If several event handlers share a subscription, the
+ * highest priority applies.  Handlers without priority default to 0.
+ */
+export function invocationPriority(request: CommandIncoming | EventIncoming,
+                                   automations: AutomationServer): number {
+    let priorities: number[];
+    if (isCommandIncoming(request)) {
+        priorities = automations.automations.commands.filter(c => c.name === request.command)
+            .map(c => c.priority);
+    } else {
+        priorities = automations.automations.events.filter(e => e.subscriptionName === request.extensions.operationName)
+            .map(e => e.priority);
+    }
+    priorities = priorities.filter(p => p !== undefined && p !== null);
+    return priorities.length > 0 ? Math.max(...priorities) : 0;
+}
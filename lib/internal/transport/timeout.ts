@@ -0,0 +1,59 @@
+import { Configuration } from "../../configuration";
+import { HandlerContext } from "../../HandlerContext";
+import { AutomationServer } from "../../server/AutomationServer";
+import { invokeWithDeadline } from "../invoker/cancellation";
+import {
+    CommandIncoming,
+    EventIncoming,
+    isCommandIncoming,
+} from "./RequestProcessor";
+
+/**
+ * Find the timeout in milliseconds for the invocation of the incoming
+ * command or event.  Timeouts configured per handler take precedence
+ * over timeouts declared on the handler, which take precedence over the
+ * configured default timeout.  A timeout of 0 disables the default
+ * timeout for the handler.  If several event handlers share a
+ * subscription, the lowest timeout applies.
+ */
+export function invocationTimeout(request: CommandIncoming | EventIncoming,
+                                  automations: AutomationServer,
+                                  configuration: Configuration): number | undefined {
+    const timeout = (configuration && configuration.timeout) || {};
+    const configured = timeout.handlers || {};
+    const timeoutOf = (name: string, declared?: number) =>
+        configured[name] !== undefined ? configured[name] : declared;
+
+    let timeouts: number[];
+    if (isCommandIncoming(request)) {
+        const handler = automations.automations.commands.find(c => c.name === request.command);
+        timeouts = [timeoutOf(request.command, handler ? handler.timeout : undefined)];
+    } else {
+        const name = request.extensions.operationName;
+        timeouts = [
+            configured[name],
+            ...automations.automations.events.filter(e => e.subscriptionName === name)
+                .map(e => timeoutOf(e.name, e.timeout)),
+        ];
+    }
+    timeouts = timeouts.filter(t => t !== undefined && t !== null && t >= 0);
+    if (timeouts.length === 0) {
+        return timeout.default;
+    }
+    const limits = timeouts.filter(t => t > 0);
+    return limits.length > 0 ? Math.min(...limits) : undefined;
+}
+
+/**
+ * Invoke the handlers for the incoming command or event, failing the
+ * invocation if it doesn't finish within its timeout.
+ */
+export function invokeWithTimeout<T>(request: CommandIncoming | EventIncoming,
+                                     ctx: HandlerContext,
+                                     automations: AutomationServer,
+                                     configuration: Configuration,
+                                     invoke: () => Promise<T>): Promise<T> {
+    const description = isCommandIncoming(request) ?
+        `Command handler '${request.command}'` : `Event subscription '${request.extensions.operationName}'`;
+    return invokeWithDeadline(ctx, invocationTimeout(request, automations, configuration), description, invoke);
+}
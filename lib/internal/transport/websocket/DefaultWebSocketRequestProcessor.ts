@@ -1,3 +1,4 @@
+import { StatsD } from "hot-shots";
 import * as stringify from "json-stringify-safe";
 import * as WebSocket from "ws";
 import { Configuration } from "../../../configuration";
@@ -16,6 +17,7 @@ import {
     registerHealthIndicator,
 } from "../../util/health";
 import { AbstractRequestProcessor } from "../AbstractRequestProcessor";
+import { handlerConcurrency } from "../concurrency";
 import {
     CommandIncoming,
     EventIncoming,
@@ -45,7 +47,7 @@ export class DefaultWebSocketRequestProcessor extends AbstractRequestProcessor
                 protected configuration: Configuration,
                 protected listeners: AutomationEventListener[] = []) {
         super(automations, listeners);
-        this.webSocketLifecycle = (configuration.ws as any).lifecycle as WebSocketLifecycle;
+        this.webSocketLifecycle = configuration.ws.lifecycle;
 
         registerHealthIndicator(() => {
             if (this.webSocketLifecycle.connected() && this.registration) {
@@ -54,6 +56,8 @@ export class DefaultWebSocketRequestProcessor extends AbstractRequestProcessor
                 return { status: HealthStatus.Down, detail: "WebSocket disconnected" };
             }
         });
+
+        this.scheduleQueueLength();
     }
 
     public onRegistration(registration: RegistrationConfirmation) {
@@ -93,4 +97,25 @@ export class DefaultWebSocketRequestProcessor extends AbstractRequestProcessor
             return new WebSocketEventMessageClient(event, this.webSocketLifecycle, this.configuration);
         }
     }
+
+    private scheduleQueueLength(): void {
+        if (!!this.configuration.statsd && this.configuration.statsd.enabled) {
+            setInterval(() => {
+                this.reportQueueLength();
+            }, 1000).unref();
+        }
+    }
+
+    private reportQueueLength(): void {
+        const statsd = (this.configuration.statsd as any).__instance as StatsD;
+        if (!!statsd) {
+            statsd.gauge(
+                "work_queue.pending",
+                handlerConcurrency.pending(),
+                1,
+                [],
+                () => { /* intentionally empty */
+                });
+        }
+    }
 }
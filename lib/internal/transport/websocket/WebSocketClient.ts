@@ -1,6 +1,5 @@
 import * as HttpsProxyAgent from "https-proxy-agent";
 import * as stringify from "json-stringify-safe";
-import promiseRetry = require("promise-retry");
 import * as serializeError from "serialize-error";
 import * as WebSocket from "ws";
 import * as zlib from "zlib";
@@ -8,6 +7,7 @@ import { Configuration } from "../../../configuration";
 import { HttpMethod } from "../../../spi/http/httpClient";
 import { logger } from "../../../util/logger";
 import { Deferred } from "../../util/Deferred";
+import { registerHealthIndicator } from "../../util/health";
 import { registerShutdownHook } from "../../util/shutdown";
 import {
     CommandIncoming,
@@ -15,6 +15,7 @@ import {
     isCommandIncoming,
     isEventIncoming,
 } from "../RequestProcessor";
+import { ReconnectStrategy } from "./reconnect";
 import { sendMessage } from "./WebSocketMessageClient";
 import {
     RegistrationConfirmation,
@@ -24,18 +25,27 @@ import Timer = NodeJS.Timer;
 
 export class WebSocketClient {
 
+    private readonly strategy: ReconnectStrategy;
+
     public constructor(
         private registrationCallback: () => any,
         private configuration: Configuration,
         private requestProcessor: WebSocketRequestProcessor,
     ) {
+        this.strategy = new ReconnectStrategy(configuration.ws.reconnect);
     }
 
     public start(): Promise<void> {
 
-        const connection = register(this.registrationCallback, this.configuration, this.requestProcessor, 5)
+        reconnect = true;
+        registerHealthIndicator(() => this.strategy.health());
+
+        // Give up on startup once the circuit opens; later reconnects keep retrying
+        const connection = register(this.registrationCallback, this.configuration, this.requestProcessor,
+            this.strategy, true)
             .then(registration =>
-                connect(this.registrationCallback, registration, this.configuration, this.requestProcessor));
+                connect(this.registrationCallback, registration, this.configuration, this.requestProcessor,
+                    this.strategy));
         return connection.then(() => {
 
             registerShutdownHook(() => {
@@ -68,6 +78,20 @@ export class WebSocketClient {
             process.exit(1);
         });
     }
+
+    /**
+     * Close the WebSocket connection without reconnecting
+     */
+    public stop(): Promise<void> {
+        reconnect = false;
+        if (!ws || ws.readyState === WebSocket.CLOSED) {
+            return Promise.resolve();
+        }
+        return new Promise<void>(resolve => {
+            ws.once("close", resolve);
+            ws.close();
+        });
+    }
 }
 
 let reconnect = true;
@@ -78,7 +102,8 @@ let ws;
 function connect(registrationCallback: () => any,
                  registration: RegistrationConfirmation,
                  configuration: Configuration,
-                 requestProcessor: WebSocketRequestProcessor): Promise<WebSocket> {
+                 requestProcessor: WebSocketRequestProcessor,
+                 strategy: ReconnectStrategy): Promise<WebSocket> {
 
     // Functions are inline to avoid "this" peculiarities
     function invokeCommandHandler(chr: CommandIncoming) {
@@ -95,8 +120,11 @@ function connect(registrationCallback: () => any,
         ws = configuration.ws.client.factory.create(registration);
 
         let timer: Timer;
+        let opened = false;
 
         ws.on("open", function open() {
+            opened = true;
+            strategy.success();
             requestProcessor.onConnect(this);
             resolve(ws);
 
@@ -166,10 +194,14 @@ function connect(registrationCallback: () => any,
                 logger.warn(`WebSocket connection closed`);
             }
             reset();
+            // A connection closing before it opened counts as failed attempt
+            if (!opened) {
+                strategy.failure(new Error(`WebSocket connection closed with ${code}: ${message}`));
+            }
             // Only attempt to reconnect if we aren't shutting down
             if (reconnect) {
-                register(registrationCallback, configuration, requestProcessor)
-                    .then(reg => connect(registrationCallback, reg, configuration, requestProcessor));
+                register(registrationCallback, configuration, requestProcessor, strategy)
+                    .then(reg => connect(registrationCallback, reg, configuration, requestProcessor, strategy));
             }
         });
 
@@ -191,26 +223,14 @@ function connect(registrationCallback: () => any,
 function register(registrationCallback: () => any,
                   configuration: Configuration,
                   handler: WebSocketRequestProcessor,
-                  retries: number = 100): Promise<RegistrationConfirmation> {
+                  strategy: ReconnectStrategy,
+                  failOnOpenCircuit: boolean = false): Promise<RegistrationConfirmation> {
     const registrationPayload = registrationCallback();
 
     logger.debug(`Registering ${registrationPayload.name}:${registrationPayload.version} ` +
         `with Atomist at '${configuration.endpoints.api}': ${stringify(registrationPayload)}`);
 
-    const retryOptions = {
-        retries,
-        factor: 3,
-        minTimeout: 1 * 500,
-        maxTimeout: 5 * 1000,
-        randomize: true,
-    };
-
-    return promiseRetry(retryOptions, (retry, retryCount) => {
-
-        if (retryCount > 1) {
-            logger.warn("Retrying registration due to previous error");
-        }
-
+    const attempt = (): Promise<RegistrationConfirmation> => {
         const client = configuration.http.client.factory.create(configuration.endpoints.api);
 
         const authorization = `Bearer ${configuration.apiKey}`;
@@ -237,7 +257,6 @@ function register(registrationCallback: () => any,
                 const nameVersion = `${registrationPayload.name}@${registrationPayload.version}`;
                 if (error.response && error.response.status === 409) {
                     logger.error(`Registration failed because a session for ${nameVersion} is already active`);
-                    retry(error);
                 } else if (error.response && (error.response.status === 400
                     || error.response.status === 401
                     || error.response.status === 403
@@ -247,10 +266,22 @@ function register(registrationCallback: () => any,
                     process.exit(1);
                 } else {
                     logger.error("Registration failed with '%s'", error);
-                    retry(error);
                 }
-            }) as Promise<RegistrationConfirmation>;
-    });
+                strategy.failure(error);
+                if (failOnOpenCircuit && strategy.open) {
+                    throw error;
+                }
+                return retry();
+            });
+    };
+
+    const retry = (): Promise<RegistrationConfirmation> => {
+        const delay = strategy.delay();
+        logger.warn("Retrying registration in %sms due to previous error", delay);
+        return new Promise<void>(resolve => setTimeout(resolve, delay)).then(attempt);
+    };
+
+    return strategy.failures > 0 ? retry() : attempt();
 }
 
 function isPing(a: any): a is Ping {
@@ -1,5 +1,9 @@
-import * as TinyQueue from "tinyqueue";
+import * as fs from "fs-extra";
+import * as stringify from "json-stringify-safe";
+import * as os from "os";
+import * as p from "path";
 import * as WebSocket from "ws";
+import { Configuration } from "../../../configuration";
 import { logger } from "../../../util/logger";
 import { sendMessage } from "./WebSocketMessageClient";
 
@@ -28,24 +32,83 @@ export interface WebSocketLifecycle {
     /**
      * Send a message over the managed WebSocket
      * If the WebSocket isn't connected, messages are queued for later
-     * when a WebSocket is connected again.
+     * when a WebSocket is connected again.  May return a promise
+     * resolving once the message was sent or queued.
      * @param msg
      */
-    send(msg: any): void;
+    send(msg: any): void | Promise<void>;
+}
+
+/**
+ * Policy for messages sent while the queue is full: drop the oldest
+ * queued message, drop the new message or block the sender until
+ * there is room in the queue again.
+ */
+export type OverflowPolicy = "dropOldest" | "dropNewest" | "block";
+
+/**
+ * Options for the {QueuingWebSocketLifecycle}.
+ */
+export interface WebSocketQueueOptions {
+
+    /** Maximum number of queued messages; default is unlimited */
+    maxSize?: number;
+
+    /** Maximum age in milliseconds of queued messages; default is unlimited */
+    maxAge?: number;
+
+    /** Policy for messages sent while the queue is full; default is dropOldest */
+    overflow?: OverflowPolicy;
+
+    /** File to spool queued messages to so that they survive restarts */
+    spool?: string;
+}
+
+/**
+ * Create the {QueuingWebSocketLifecycle} options from the ws.queue
+ * configuration, defaulting the spool file to
+ * ~/.atomist/spool/<application>.log if spooling is enabled.
+ */
+export function webSocketQueueOptions(configuration: Configuration): WebSocketQueueOptions {
+    const queueCfg = (configuration.ws ? configuration.ws.queue : undefined) || {};
+    const spoolCfg = queueCfg.spool || {};
+    return {
+        maxSize: queueCfg.maxSize,
+        maxAge: queueCfg.maxAge,
+        overflow: queueCfg.overflow,
+        spool: spoolCfg.enabled === true ?
+            p.join(spoolCfg.directory || p.join(os.homedir(), ".atomist", "spool"),
+                `${configuration.application || configuration.name}.log`) :
+            undefined,
+    };
+}
+
+interface QueuedMessage {
+    ts: number;
+    msg: any;
 }
 
 /**
- * Lifecycle owning a WebSocket connection wrt message sending
+ * Lifecycle owning a WebSocket connection wrt message sending.
+ *
+ * Messages sent while disconnected are queued in order and sent once a
+ * WebSocket is connected again.  The queue is bounded by size and age
+ * as configured, and optionally spooled to a file from which it gets
+ * restored on startup.
  */
 export class QueuingWebSocketLifecycle implements WebSocketLifecycle {
 
-    private messages: TinyQueue<any>;
+    private readonly options: WebSocketQueueOptions;
+    private messages: QueuedMessage[] = [];
+    private readonly blocked: Array<{ msg: any, resolve: () => void }> = [];
     private ws: WebSocket;
     private timer: NodeJS.Timer;
 
-    constructor() {
-        // This is odd but the only way to the types working
-        this.messages = new TinyQueue();
+    constructor(options: WebSocketQueueOptions = {}) {
+        this.options = { overflow: "dropOldest", ...options };
+        if (this.options.spool) {
+            this.load();
+        }
     }
 
     /**
@@ -77,23 +140,164 @@ export class QueuingWebSocketLifecycle implements WebSocketLifecycle {
         this.ws = null;
     }
 
+    /**
+     * Number of queued messages, including those of blocked senders
+     */
+    public size(): number {
+        return this.messages.length + this.blocked.length;
+    }
+
     /**
      * Send a message over the managed WebSocket
      * If the WebSocket isn't connected, messages are queued for later
      * when a WebSocket is connected again.
      * @param msg
      */
-    public send(msg: any): void {
-        if (!this) {
-            logger.warn(`WebSocket has been destroyed before we were able to send the message`);
-            return;
-        } else if (this.connected()) {
+    public send(msg: any): Promise<void> {
+        if (this.connected()) {
+            this.flush();
+        }
+        if (this.connected() && this.size() === 0) {
             sendMessage(msg, this.ws, true);
+            return Promise.resolve();
+        }
+        if (!this.timer) {
+            this.init();
+        }
+        return this.enqueue(msg);
+    }
+
+    private enqueue(msg: any): Promise<void> {
+        this.expire();
+        const maxSize = this.options.maxSize;
+        if (!(maxSize > 0) || this.messages.length < maxSize) {
+            this.push(msg);
+            return Promise.resolve();
+        }
+
+        switch (this.options.overflow) {
+            case "dropNewest":
+                logger.warn("WebSocket message queue full. Dropping message");
+                return Promise.resolve();
+            case "block":
+                logger.debug("WebSocket message queue full. Waiting for queue to drain");
+                return new Promise<void>(resolve => this.blocked.push({ msg, resolve }));
+            default:
+                logger.warn("WebSocket message queue full. Dropping oldest message");
+                this.messages.shift();
+                this.push(msg, true);
+                return Promise.resolve();
+        }
+    }
+
+    private push(msg: any, rewrite: boolean = false): void {
+        const entry = { ts: Date.now(), msg };
+        this.messages.push(entry);
+        if (rewrite) {
+            this.spool();
         } else {
-            if (!this.timer) {
-                this.init();
+            this.append(entry);
+        }
+    }
+
+    /**
+     * Send queued messages in order while connected, admitting blocked
+     * senders as room frees up
+     */
+    private flush(): void {
+        this.expire();
+        const size = this.size();
+        while (this.connected() && this.messages.length > 0) {
+            sendMessage(this.messages.shift().msg, this.ws, true);
+            this.admit();
+        }
+        if (this.size() < size) {
+            this.spool();
+        }
+    }
+
+    private admit(): void {
+        const maxSize = this.options.maxSize;
+        while (this.blocked.length > 0 && (!(maxSize > 0) || this.messages.length < maxSize)) {
+            const waiting = this.blocked.shift();
+            this.messages.push({ ts: Date.now(), msg: waiting.msg });
+            waiting.resolve();
+        }
+    }
+
+    private expire(): void {
+        const maxAge = this.options.maxAge;
+        if (!(maxAge > 0)) {
+            return;
+        }
+        const oldest = Date.now() - maxAge;
+        const length = this.messages.length;
+        this.messages = this.messages.filter(m => m.ts > oldest);
+        if (this.messages.length < length) {
+            logger.warn("Dropping %s WebSocket messages queued longer than %sms", length - this.messages.length, maxAge);
+            this.admit();
+            this.spool();
+        }
+    }
+
+    /**
+     * Restore messages spooled before a restart
+     */
+    private load(): void {
+        try {
+            if (fs.existsSync(this.options.spool)) {
+                this.messages = fs.readFileSync(this.options.spool, "utf8")
+                    .split("\n")
+                    .filter(l => l.trim().length > 0)
+                    .map(l => {
+                        try {
+                            return JSON.parse(l) as QueuedMessage;
+                        } catch (e) {
+                            logger.warn("Ignoring corrupt message in '%s': %s", this.options.spool, e.message);
+                            return undefined;
+                        }
+                    })
+                    .filter(m => !!m);
+                const maxSize = this.options.maxSize;
+                if (maxSize > 0 && this.messages.length > maxSize) {
+                    this.messages = this.messages.slice(-maxSize);
+                }
+                this.expire();
+                if (this.messages.length > 0) {
+                    logger.info("Restored %s queued WebSocket messages from '%s'",
+                        this.messages.length, this.options.spool);
+                    this.init();
+                }
             }
-            this.messages.push(msg);
+            this.spool();
+        } catch (e) {
+            logger.warn("Failed to restore queued WebSocket messages from '%s': %s", this.options.spool, e.message);
+        }
+    }
+
+    private append(entry: QueuedMessage): void {
+        if (!this.options.spool) {
+            return;
+        }
+        try {
+            fs.appendFileSync(this.options.spool, stringify(entry) + "\n", { encoding: "utf8", mode: 0o600 });
+        } catch (e) {
+            logger.warn("Failed to spool WebSocket message to '%s': %s", this.options.spool, e.message);
+        }
+    }
+
+    private spool(): void {
+        if (!this.options.spool) {
+            return;
+        }
+        try {
+            const tmp = `${this.options.spool}.tmp`;
+            fs.ensureDirSync(p.dirname(this.options.spool));
+            fs.writeFileSync(tmp, this.messages.map(m => stringify(m) + "\n").join(""),
+                { encoding: "utf8", mode: 0o600 });
+            fs.renameSync(tmp, this.options.spool);
+        } catch (e) {
+            logger.warn("Failed to spool WebSocket messages to '%s': %s", this.options.spool, e.message);
         }
     }
 
@@ -101,12 +305,12 @@ export class QueuingWebSocketLifecycle implements WebSocketLifecycle {
      * Init the internal queue processing
      */
     private init(): void {
-        this.timer = setInterval(async () => {
-            const queuedMessages = [];
-            while (this.messages.length > 0) {
-                queuedMessages.push(this.messages.pop());
+        this.timer = setInterval(() => {
+            if (this.connected()) {
+                this.flush();
+            } else {
+                this.expire();
             }
-            queuedMessages.forEach(this.send);
         }, 1000);
         this.timer.unref();
     }
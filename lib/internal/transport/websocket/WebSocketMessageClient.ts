@@ -166,8 +166,7 @@ export abstract class AbstractWebSocketMessageClient extends MessageClientSuppor
             response.body = JSON.stringify(msg);
             response.id = (options.id ? options.id : guid());
         }
-        this.ws.send(response);
-        return Promise.resolve(response);
+        return Promise.resolve(this.ws.send(response)).then(() => response);
     }
 
     private ts(options: MessageOptions): number {
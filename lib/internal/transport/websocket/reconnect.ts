@@ -0,0 +1,122 @@
+import { logger } from "../../../util/logger";
+import {
+    Health,
+    HealthStatus,
+} from "../../util/health";
+
+/**
+ * Policy for re-registering and re-connecting the WebSocket after
+ * failures.  Delays grow exponentially from minTimeout by factor up to
+ * maxTimeout.
+ */
+export interface ReconnectOptions {
+    /** multiplier applied to the delay after every failed attempt */
+    factor?: number;
+    /** delay in milliseconds before the first retry */
+    minTimeout?: number;
+    /** maximum delay in milliseconds between attempts */
+    maxTimeout?: number;
+    /** fraction between 0 and 1 by which delays get randomly shortened */
+    jitter?: number;
+    /**
+     * number of consecutive failed attempts after which the circuit
+     * opens and the client reports itself unhealthy
+     */
+    maxAttempts?: number;
+}
+
+export const DefaultReconnectOptions: ReconnectOptions = {
+    factor: 3,
+    minTimeout: 500,
+    maxTimeout: 5000,
+    jitter: 0.5,
+    maxAttempts: 10,
+};
+
+/**
+ * Tracks consecutive registration and connection failures, computes the
+ * delay before the next attempt and opens the circuit once failures
+ * persist.  Attempts continue while the circuit is open, but at the
+ * maximum delay, and the first success closes it again.
+ */
+export class ReconnectStrategy {
+
+    private readonly options: ReconnectOptions;
+    private attempts: number = 0;
+    private error: any;
+    private openedAt: number;
+
+    constructor(options: ReconnectOptions = {},
+                private readonly random: () => number = Math.random) {
+        this.options = { ...DefaultReconnectOptions, ...options };
+    }
+
+    /** Number of consecutive failed attempts */
+    get failures(): number {
+        return this.attempts;
+    }
+
+    /** True if failures persisted for maxAttempts attempts */
+    get open(): boolean {
+        return this.attempts >= this.options.maxAttempts;
+    }
+
+    /**
+     * Milliseconds to wait before the next attempt; 0 if the last
+     * attempt didn't fail
+     */
+    public delay(): number {
+        if (this.attempts === 0) {
+            return 0;
+        }
+        const { factor, minTimeout, maxTimeout } = this.options;
+        const timeout = this.open ? maxTimeout :
+            Math.min(maxTimeout, minTimeout * Math.pow(factor, this.attempts - 1));
+        const jitter = Math.min(1, Math.max(0, this.options.jitter));
+        return Math.round(timeout * (1 - jitter * this.random()));
+    }
+
+    public failure(error?: any, now: number = Date.now()): void {
+        this.attempts++;
+        this.error = error;
+        if (this.attempts === this.options.maxAttempts) {
+            this.openedAt = now;
+            logger.error("WebSocket registration failed %s consecutive times. Marking client unhealthy",
+                this.attempts);
+        }
+    }
+
+    public success(): void {
+        if (this.open) {
+            logger.info("WebSocket registration recovered after %s failed attempts", this.attempts);
+        }
+        this.attempts = 0;
+        this.error = undefined;
+        this.openedAt = undefined;
+    }
+
+    /**
+     * Health of the WebSocket registration, to be registered as health
+     * indicator
+     */
+    public health(): Health<any> {
+        if (this.open) {
+            return {
+                status: HealthStatus.Down,
+                detail: {
+                    circuit: "open",
+                    failures: this.attempts,
+                    since: new Date(this.openedAt).toISOString(),
+                    error: this.error ? this.error.message || `${this.error}` : undefined,
+                },
+            };
+        }
+        return {
+            status: HealthStatus.Up,
+            detail: {
+                circuit: "closed",
+                failures: this.attempts,
+            },
+        };
+    }
+}
@@ -0,0 +1,88 @@
+import * as _ from "lodash";
+
+/**
+ * Top-level configuration keys holding code rather than data
+ */
+export const CodeKeys = ["commands", "events", "ingesters", "listeners", "postProcessors", "secretResolver", "metadataProcessor"];
+
+/**
+ * Copy the data of the configuration value, dropping functions and
+ * class instances, e.g., to compare configurations
+ */
+export function configurationData(value: any): any {
+    if (_.isRegExp(value)) {
+        return value.toString();
+    } else if (Array.isArray(value)) {
+        return value.map(configurationData);
+    } else if (_.isPlainObject(value)) {
+        return _.mapValues(value, configurationData);
+    } else if (typeof value === "object" || typeof value === "function") {
+        return undefined;
+    }
+    return value;
+}
+
+/**
+ * Return paths of the values that differ, treating arrays as values
+ */
+export function changedPaths(a: any, b: any, path: string = ""): string[] {
+    if (_.isPlainObject(a) && _.isPlainObject(b)) {
+        return _.union(Object.keys(a), Object.keys(b))
+            .sort()
+            .map(k => changedPaths(a[k], b[k], join(path, k)))
+            .reduce((keys, k) => [...keys, ...k], []);
+    }
+    return _.isEqual(a, b) ? [] : [path];
+}
+
+/**
+ * Return paths of all defined values that are not objects, treating
+ * arrays as values
+ */
+export function leafPaths(value: any, path: string = ""): string[] {
+    if (_.isPlainObject(value)) {
+        return Object.keys(value)
+            .sort()
+            .map(k => leafPaths(value[k], join(path, k)))
+            .reduce((keys, k) => [...keys, ...k], []);
+    }
+    return value === undefined ? [] : [path];
+}
+
+function join(path: string, key: string): string {
+    return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Records the source of each leaf value of a configuration that gets
+ * built up in steps, e.g., by merging defaults, configuration files and
+ * environment variables.
+ */
+export class ProvenanceRecorder {
+
+    /** Sources of leaf values keyed by path */
+    public readonly provenance: { [path: string]: string } = {};
+
+    private snapshot: any = {};
+
+    /**
+     * Attribute all leaf values that changed since the last step to the
+     * source, which can be computed from the path and previous source
+     */
+    public record(cfg: any, source: string | ((path: string, previous?: string) => string)): void {
+        const next = _.omit(configurationData(cfg), CodeKeys);
+        changedPaths(this.snapshot, next).forEach(changed => {
+            const previous: { [path: string]: string } = {};
+            Object.keys(this.provenance)
+                .filter(p => p === changed || p.startsWith(`${changed}.`))
+                .forEach(p => {
+                    previous[p] = this.provenance[p];
+                    delete this.provenance[p];
+                });
+            leafPaths(_.get(next, changed), changed).forEach(p => {
+                this.provenance[p] = typeof source === "string" ? source : source(p, previous[p]);
+            });
+        });
+        this.snapshot = next;
+    }
+}
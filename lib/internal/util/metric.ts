@@ -1,19 +1,50 @@
+import * as _ from "lodash";
 import * as _metrics from "metrics";
 import * as os from "os";
 
 const report = new _metrics.Report();
 
-export function increment(name: string) {
+/**
+ * Labels to distinguish series of the same metric, e.g. handler name or workspace
+ */
+export interface MetricLabels {
+    [label: string]: string;
+}
+
+interface LabelledMetric {
+    name: string;
+    labels: MetricLabels;
+    metric: _metrics.Counter | _metrics.Timer;
+}
+
+const labelled: { [key: string]: LabelledMetric } = {};
+
+/** Names of the unlabelled metrics added to the report */
+const unlabelled = new Set<string>();
+
+const Quantiles = [0.5, 0.75, 0.95, 0.99];
+
+export function increment(name: string, labels?: MetricLabels) {
+    if (labels) {
+        (getLabelled(name, labels, () => new _metrics.Counter()) as _metrics.Counter).inc();
+        return;
+    }
     const counter = getCounter(name);
     counter.inc();
     report.addMetric(name, counter);
+    unlabelled.add(name);
 }
 
 // tslint:disable-next-line:no-shadowed-variable
-export function duration(name: string, duration: number) {
+export function duration(name: string, duration: number, labels?: MetricLabels) {
+    if (labels) {
+        (getLabelled(name, labels, () => new _metrics.Timer()) as _metrics.Timer).update(duration);
+        return;
+    }
     const timer = getTimer(name);
     timer.update(duration);
     report.addMetric(name, timer);
+    unlabelled.add(name);
 }
 
 export function getCounter(name: string): _metrics.Counter {
@@ -40,3 +71,77 @@ export function metrics() {
     };
     return m;
 }
+
+/**
+ * Render all metrics in the Prometheus text exposition format.
+ * Unlabelled metrics that are recorded with labels as well, e.g.
+ * command_handler.<name>.success next to command_handler, are only
+ * rendered in their labelled form.
+ */
+export function prometheusMetrics(): string {
+    const families: { [name: string]: LabelledMetric[] } = {};
+    _.forEach(labelled, m => (families[m.name] = families[m.name] || []).push(m));
+
+    unlabelled.forEach(name => {
+        if (!Object.keys(families).some(f => name === f || name.startsWith(`${f}.`))) {
+            families[name] = [{ name, labels: {}, metric: report.getMetric(name) as _metrics.Counter | _metrics.Timer }];
+        }
+    });
+
+    const lines: string[] = [];
+    Object.keys(families).sort().forEach(name => {
+        const series = families[name];
+        const metricName = sanitize(name);
+        if (series[0].metric.type === "counter") {
+            lines.push(`# TYPE ${metricName}_total counter`);
+            series.forEach(s => lines.push(
+                `${metricName}_total${labelString(s.labels)} ${(s.metric as _metrics.Counter).printObj().count}`));
+        } else if (series[0].metric.type === "timer") {
+            lines.push(`# TYPE ${metricName}_milliseconds summary`);
+            series.forEach(s => {
+                const timer = s.metric as _metrics.Timer;
+                const percentiles = timer.percentiles(Quantiles);
+                Quantiles.forEach(q => lines.push(`${metricName}_milliseconds${
+                    labelString({ ...s.labels, quantile: q.toString() })} ${percentiles[q] || 0}`));
+                lines.push(`${metricName}_milliseconds_sum${labelString(s.labels)} ${timer.printObj().duration.sum || 0}`);
+                lines.push(`${metricName}_milliseconds_count${labelString(s.labels)} ${timer.count()}`);
+            });
+        }
+    });
+
+    const memory = process.memoryUsage();
+    lines.push(
+        "# TYPE nodejs_heap_used_bytes gauge",
+        `nodejs_heap_used_bytes ${memory.heapUsed}`,
+        "# TYPE nodejs_heap_total_bytes gauge",
+        `nodejs_heap_total_bytes ${memory.heapTotal}`,
+        "# TYPE process_resident_memory_bytes gauge",
+        `process_resident_memory_bytes ${memory.rss}`,
+        "# TYPE process_uptime_seconds gauge",
+        `process_uptime_seconds ${process.uptime()}`,
+    );
+    return lines.join("\n") + "\n";
+}
+
+function getLabelled(name: string,
+                     labels: MetricLabels,
+                     factory: () => _metrics.Counter | _metrics.Timer): _metrics.Counter | _metrics.Timer {
+    const key = `${name}${labelString(labels)}`;
+    if (!labelled[key]) {
+        labelled[key] = { name, labels, metric: factory() };
+    }
+    return labelled[key].metric;
+}
+
+function sanitize(name: string): string {
+    return name.replace(/[^a-zA-Z0-9_]/g, "_");
+}
+
+function labelString(labels: MetricLabels): string {
+    const names = Object.keys(labels).filter(l => labels[l] !== undefined && labels[l] !== null).sort();
+    if (names.length === 0) {
+        return "";
+    }
+    return `{${names.map(l => `${sanitize(l)}="${labels[l].toString()
+        .replace(/\\/g, "\\\\").replace(/"/g, "\\\"").replace(/\n/g, "\\n")}"`).join(",")}}`;
+}
@@ -109,6 +109,12 @@ export interface AutomationMetadata {
     description: string;
     tags?: Tag[];
     values?: ValueDeclaration[];
+    /** Maximum number of concurrent invocations; further invocations are queued */
+    concurrency?: number;
+    /** Timeout in milliseconds after which invocations get cancelled */
+    timeout?: number;
+    /** Dispatch priority; invocations with higher priority get dispatched to cluster workers first */
+    priority?: number;
 }
 
 export interface ValueDeclaration {
@@ -160,4 +166,22 @@ export interface CommandHandlerMetadata extends AutomationMetadata, ParameterMet
 
     intent?: string[];
     auto_submit?: boolean;
+    /** Who may invoke the command handler over HTTP */
+    access?: AccessRule;
+}
+
+/**
+ * Rule restricting invocations of a command handler over HTTP.  An
+ * invocation is allowed if the authenticated caller matches any of
+ * the conditions.
+ */
+export interface AccessRule {
+    /** Basic auth user names, GitHub logins or JWT subjects */
+    users?: string[];
+    /** GitHub organizations whose members are allowed; requires GitHub bearer authentication */
+    githubOrgs?: string[];
+    /** GitHub teams as owner/team whose members are allowed; requires GitHub bearer authentication */
+    githubTeams?: string[];
+    /** JWT claim values, see http.auth.jwt.permissions.claim */
+    roles?: string[];
 }
@@ -78,7 +78,7 @@ export function githubOrg(maker: Maker<HandleCommand>, org: string): () => Handl
     };
 }
 
-function isGitHubOrgMember(org: string, login: string, token: string): Promise<boolean> {
+export function isGitHubOrgMember(org: string, login: string, token: string): Promise<boolean> {
     if (login) {
 
         const config = {
@@ -12,6 +12,7 @@ import {
     HandlerResult,
     SuccessPromise,
 } from "../HandlerResult";
+import { ChainedSecretResolver } from "../internal/env/ChainedSecretResolver";
 import { NodeConfigSecretResolver } from "../internal/env/NodeConfigSecretResolver";
 import {
     Arg,
@@ -87,7 +88,9 @@ export class BuildableAutomationServer extends AbstractAutomationServer {
     constructor(public opts: Configuration) {
         super();
 
-        if (opts.secretResolver) {
+        if (Array.isArray(opts.secretResolver)) {
+            this.secretResolver = new ChainedSecretResolver(opts.secretResolver);
+        } else if (opts.secretResolver) {
             this.secretResolver = opts.secretResolver;
         }
 
@@ -178,15 +181,11 @@ export class BuildableAutomationServer extends AbstractAutomationServer {
                                                                ctx: HandlerContext): Promise<HandlerResult> {
         populateParameters(params, md, invocation.args);
         populateValues(params, md, this.opts);
-        this.populateMappedParameters(params, md, invocation);
-        this.populateSecrets(params, md, invocation.secrets);
 
-        const bindAndValidate: Promise<ValidationResult> =
-            isSmartParameters(params) ?
-                Promise.resolve(params.bindAndValidate()) :
-                Promise.resolve();
-
-        return bindAndValidate
+        return this.populateMappedParameters(params, md, invocation)
+            .then(() => this.populateSecrets(params, md, invocation.secrets))
+            .then((): ValidationResult | Promise<ValidationResult> =>
+                isSmartParameters(params) ? params.bindAndValidate() : undefined)
             .then(vr => {
                 if (isValidationError(vr)) {
                     return Promise.reject(`Validation failure invoking command handler '${md.name}': [${vr.message}]`);
@@ -211,20 +210,22 @@ export class BuildableAutomationServer extends AbstractAutomationServer {
                                             metadata: EventHandlerMetadata,
                                             e: EventFired<any>,
                                             ctx: HandlerContext): Promise<HandlerResult> {
-        this.populateSecrets(h, metadata, e.secrets);
-        populateValues(h, metadata, this.opts);
-        const handlerResult = h.handle(e, this.enrichContext(ctx), h);
-        if (!handlerResult) {
-            return SuccessPromise;
-        }
-
-        return (handlerResult as Promise<HandlerResult>)
-            .then(result => {
-                if (result) {
-                    return result;
-                } else {
+        return this.populateSecrets(h, metadata, e.secrets)
+            .then(() => {
+                populateValues(h, metadata, this.opts);
+                const handlerResult = h.handle(e, this.enrichContext(ctx), h);
+                if (!handlerResult) {
                     return SuccessPromise;
                 }
+
+                return (handlerResult as Promise<HandlerResult>)
+                    .then(result => {
+                        if (result) {
+                            return result;
+                        } else {
+                            return SuccessPromise;
+                        }
+                    });
             });
     }
 
@@ -233,7 +234,7 @@ export class BuildableAutomationServer extends AbstractAutomationServer {
         return ctx;
     }
 
-    private populateMappedParameters(h: {}, metadata: CommandHandlerMetadata, invocation: Invocation) {
+    private populateMappedParameters(h: {}, metadata: CommandHandlerMetadata, invocation: Invocation): Promise<void> {
         // Resolve from the invocation, otherwise from our fallback
         class InvocationSecretResolver implements SecretResolver {
             constructor(private mp: Arg[]) {
@@ -259,20 +260,18 @@ export class BuildableAutomationServer extends AbstractAutomationServer {
         // logger.debug("Applying mapped parameters");
         const mappedParameters = metadata.mapped_parameters || [];
         const invMps = invocation.mappedParameters || [];
-        mappedParameters.forEach(mp => {
-            if (invMps.some(im => im.name === mp.name) || mp.required) {
-                _.update(h, mp.name, () => mrResolver.resolve(mp.name));
-            }
-        });
+        return resolveAll(h, mappedParameters
+            .filter(mp => invMps.some(im => im.name === mp.name) || mp.required)
+            .map(mp => ({ path: mp.name, key: mp.name })), mrResolver);
     }
 
-    private populateSecrets(h: {}, metadata: SecretsMetadata, invocationSecrets: Secret[] | undefined) {
+    private populateSecrets(h: {}, metadata: SecretsMetadata, invocationSecrets: Secret[] | undefined): Promise<void> {
         // Resolve from the invocation, otherwise from our fallback
         class InvocationSecretResolver implements SecretResolver {
-            constructor(private sec: Secret[]) {
+            constructor(private readonly sec: Secret[], private readonly fallback: SecretResolver) {
             }
 
-            public resolve(key: string): string {
+            public resolve(key: string): string | Promise<string> {
                 const value = this.sec.find(a => a.uri === key);
                 if (value) {
                     if (!!value.value) {
@@ -281,17 +280,14 @@ export class BuildableAutomationServer extends AbstractAutomationServer {
                         return undefined;
                     }
                 }
-                throw new Error(`Cannot resolve secret '${key}'`);
+                return this.fallback.resolve(key);
             }
         }
 
-        const secretResolver = invocationSecrets ? new InvocationSecretResolver(invocationSecrets) :
-            this.secretResolver;
+        const secretResolver = new InvocationSecretResolver(invocationSecrets || [], this.secretResolver);
         // logger.debug("Applying secrets");
         const secrets = metadata.secrets || [];
-        secrets.forEach(s => {
-            _.update(h, s.name, () => secretResolver.resolve(s.uri));
-        });
+        return resolveAll(h, secrets.map(s => ({ path: s.name, key: s.uri })), secretResolver);
     }
 
     get automations(): Automations {
@@ -309,3 +305,16 @@ export class BuildableAutomationServer extends AbstractAutomationServer {
     }
 
 }
+
+/**
+ * Resolve all keys, possibly asynchronously, and set the resolved values
+ * at their paths of the handler or parameters instance
+ */
+function resolveAll(h: {}, values: Array<{ path: string, key: string }>, resolver: SecretResolver): Promise<void> {
+    return Promise.all(values.map(v => Promise.resolve()
+        .then(() => resolver.resolve(v.key))
+        .then(resolved => {
+            _.update(h, v.path, () => resolved);
+        })))
+        .then(() => undefined);
+}
@@ -4,5 +4,10 @@
  */
 export interface SecretResolver {
 
-    resolve(key: string): string;
+    /**
+     * Resolve the secret with the given key, asynchronously if it has to
+     * be fetched, e.g., over HTTP.  Throw or reject if the secret can't
+     * be resolved.
+     */
+    resolve(key: string): string | Promise<string>;
 }
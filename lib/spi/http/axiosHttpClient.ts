@@ -1,6 +1,11 @@
 import axios, { AxiosRequestConfig } from "axios";
+import {
+    CancellationError,
+    cancellationSignal,
+} from "../../internal/invoker/cancellation";
 import { configureProxy } from "../../internal/util/http";
 import { doWithRetry } from "../../util/retry";
+import { traced } from "../../util/tracing";
 import {
     DefaultHttpClientOptions,
     HttpClient,
@@ -22,24 +27,47 @@ export class AxiosHttpClient implements HttpClient {
             ...options,
         };
 
+        // Abort the request if the handler invocation that made it gets cancelled
+        const cancellation = cancellationSignal();
+
         const request = () => {
+            if (cancellation && cancellation.cancelled) {
+                return Promise.reject(new CancellationError(`Request to '${url}' cancelled: ${cancellation.reason}`));
+            }
+            const source = axios.CancelToken.source();
+            const unregister = cancellation ? cancellation.onCancel(reason => source.cancel(reason)) : () => undefined;
             return axios.request(this.configureOptions(configureProxy({
                     url,
                     headers: optionsToUse.headers,
                     method: optionsToUse.method.toString().toUpperCase(),
                     data: optionsToUse.body,
+                    cancelToken: source.token,
                     ...optionsToUse.options,
                 })))
                 .then(result => {
+                    unregister();
                     return {
                         status: result.status,
                         headers: result.headers,
                         body: result.data,
                     };
+                }, err => {
+                    unregister();
+                    if (axios.isCancel(err)) {
+                        throw new CancellationError(`Request to '${url}' cancelled: ${err.message}`);
+                    }
+                    throw err;
                 });
         };
 
-        return doWithRetry<HttpResponse<T>>(request, `Requesting '${url}'`, optionsToUse.retry);
+        const method = optionsToUse.method.toString().toUpperCase();
+        return traced(`${method} ${url}`, "http", { url, method }, async span => {
+            const response = await doWithRetry<HttpResponse<T>>(request, `Requesting '${url}'`, optionsToUse.retry);
+            if (span) {
+                span.span.attributes.status = response.status;
+            }
+            return response;
+        });
     }
 
     protected configureOptions(options: AxiosRequestConfig): AxiosRequestConfig {
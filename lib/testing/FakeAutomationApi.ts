@@ -0,0 +1,357 @@
+import * as bodyParser from "body-parser";
+import * as express from "express";
+import * as http from "http";
+import * as stringify from "json-stringify-safe";
+import { AddressInfo } from "net";
+import * as WebSocket from "ws";
+import { Configuration } from "../configuration";
+import {
+    CommandIncoming,
+    EventIncoming,
+    Secret,
+    Source,
+} from "../internal/transport/RequestProcessor";
+import { HandlerResponse } from "../internal/transport/websocket/WebSocketMessageClient";
+import { RegistrationConfirmation } from "../internal/transport/websocket/WebSocketRequestProcessor";
+import { guid } from "../internal/util/string";
+import { logger } from "../util/logger";
+
+/**
+ * GraphQL request received by the {FakeAutomationApi}
+ */
+export interface GraphQLRequest {
+    workspaceId: string;
+    query: string;
+    variables?: any;
+    operationName?: string;
+}
+
+/**
+ * Function answering GraphQL requests with the data of the response.
+ * Errors thrown get returned as GraphQL errors.
+ */
+export type GraphQLResponder = (request: GraphQLRequest) => any | Promise<any>;
+
+/**
+ * Options for the {FakeAutomationApi}.
+ */
+export interface FakeAutomationApiOptions {
+
+    /** Port to listen on; default is a random free port */
+    port?: number;
+
+    /** Workspace commands and events are sent to by default */
+    workspaceId?: string;
+
+    /** Milliseconds to wait for handler statuses and messages; default is 10000 */
+    timeout?: number;
+}
+
+/**
+ * Options for commands invoked through the {FakeAutomationApi}.
+ */
+export interface FakeCommandOptions {
+    workspaceId?: string;
+    mappedParameters?: { [name: string]: string };
+    secrets?: { [uri: string]: string };
+    source?: Source;
+}
+
+/**
+ * Options for events raised through the {FakeAutomationApi}.
+ */
+export interface FakeEventOptions {
+    workspaceId?: string;
+    secrets?: Secret[];
+}
+
+interface Waiter {
+    predicate: (message: HandlerResponse) => boolean;
+    resolve: (message: HandlerResponse) => void;
+    reject: (err: Error) => void;
+    timer: NodeJS.Timer;
+}
+
+/**
+ * In-process stand-in for the Atomist automation API to test automation
+ * clients end to end without the real backend.
+ *
+ * Serves the registration endpoint, the WebSocket feed of commands and
+ * events and a GraphQL endpoint.  Point a client at it via the
+ * configuration returned by {configuration}, then invoke commands, raise
+ * events and assert on the recorded registrations, messages, handler
+ * statuses and GraphQL requests.
+ */
+export class FakeAutomationApi {
+
+    /** Registration payloads posted by clients */
+    public readonly registrations: any[] = [];
+
+    /** Messages sent by handlers */
+    public readonly messages: HandlerResponse[] = [];
+
+    /** Statuses of handler invocations */
+    public readonly statuses: HandlerResponse[] = [];
+
+    /** GraphQL requests received */
+    public readonly queries: GraphQLRequest[] = [];
+
+    private readonly options: FakeAutomationApiOptions;
+    private server: http.Server;
+    private wss: WebSocket.Server;
+    private socket: WebSocket;
+    private graphQLResponder: GraphQLResponder = () => ({});
+    private waiters: Waiter[] = [];
+
+    constructor(options: FakeAutomationApiOptions = {}) {
+        this.options = { port: 0, workspaceId: "T1234567", timeout: 10000, ...options };
+    }
+
+    /**
+     * Base URL of the HTTP endpoints
+     */
+    get url(): string {
+        return `http://localhost:${(this.server.address() as AddressInfo).port}`;
+    }
+
+    /**
+     * Configuration pointing a client at this API
+     */
+    public configuration(): Configuration {
+        return {
+            apiKey: "fake-api-key",
+            workspaceIds: [this.options.workspaceId],
+            endpoints: {
+                api: `${this.url}/registration`,
+                graphql: `${this.url}/graphql/team`,
+            },
+        };
+    }
+
+    /**
+     * Start listening for HTTP and WebSocket connections
+     */
+    public start(): Promise<void> {
+        const exp = express();
+        exp.use(bodyParser.json({ limit: "10mb" }));
+        exp.post("/registration", (req, res) => this.register(req, res));
+        exp.post("/graphql/team/:workspaceId", (req, res) => this.graphql(req, res));
+
+        this.server = http.createServer(exp);
+        this.wss = new WebSocket.Server({ server: this.server, path: "/ws" });
+        this.wss.on("connection", ws => this.connect(ws));
+
+        return new Promise<void>((resolve, reject) => {
+            this.server.once("error", reject);
+            this.server.listen(this.options.port, () => {
+                logger.debug("Fake automation API listening at '%s'", this.url);
+                resolve();
+            });
+        });
+    }
+
+    /**
+     * Close all connections and stop listening
+     */
+    public stop(): Promise<void> {
+        this.waiters.forEach(w => {
+            clearTimeout(w.timer);
+            w.reject(new Error("Fake automation API stopped"));
+        });
+        this.waiters = [];
+        if (!this.server) {
+            return Promise.resolve();
+        }
+        this.wss.clients.forEach(c => c.terminate());
+        return new Promise<void>(resolve => this.wss.close(() => this.server.close(() => {
+            resolve();
+        })));
+    }
+
+    /**
+     * Answer GraphQL requests with the data returned by the responder
+     */
+    public onGraphQL(responder: GraphQLResponder): this {
+        this.graphQLResponder = responder;
+        return this;
+    }
+
+    /**
+     * Is a client connected to the WebSocket feed
+     */
+    public connected(): boolean {
+        return !!this.socket && this.socket.readyState === WebSocket.OPEN;
+    }
+
+    /**
+     * Close the WebSocket connection of the client, e.g., to test reconnects
+     */
+    public disconnect(code: number = 1000, reason: string = "Closed by fake automation API"): void {
+        if (this.socket) {
+            this.socket.close(code, reason);
+            this.socket = undefined;
+        }
+    }
+
+    /**
+     * Forget recorded registrations, messages, statuses and GraphQL requests
+     */
+    public reset(): void {
+        [this.registrations, this.messages, this.statuses, this.queries].forEach(a => a.splice(0, a.length));
+    }
+
+    /**
+     * Invoke a command handler and return its status once received
+     */
+    public invokeCommand(name: string,
+                         parameters: { [name: string]: string | string[] } = {},
+                         options: FakeCommandOptions = {}): Promise<HandlerResponse> {
+        const workspaceId = options.workspaceId || this.options.workspaceId;
+        const mappedParameters = options.mappedParameters || {};
+        const secrets = options.secrets || {};
+        const command: CommandIncoming = {
+            api_version: "1",
+            correlation_id: guid(),
+            command: name,
+            team: { id: workspaceId },
+            source: options.source || {
+                user_agent: "slack",
+                slack: {
+                    team: { id: workspaceId },
+                    channel: { id: "C1234567", name: "general" },
+                    user: { id: "U1234567", name: "tester" },
+                },
+            },
+            parameters: Object.keys(parameters).map(n => ({ name: n, value: parameters[n] as any })),
+            mapped_parameters: Object.keys(mappedParameters).map(n => ({ name: n, value: mappedParameters[n] })),
+            secrets: Object.keys(secrets).map(uri => ({ uri, value: secrets[uri] })),
+        };
+        return this.dispatch(command, command.correlation_id);
+    }
+
+    /**
+     * Raise an event for the subscription and return the status of its
+     * handlers once received
+     */
+    public raiseEvent(operationName: string, data: any, options: FakeEventOptions = {}): Promise<HandlerResponse> {
+        const event: EventIncoming = {
+            data,
+            extensions: {
+                team_id: options.workspaceId || this.options.workspaceId,
+                operationName,
+                correlation_id: guid(),
+            },
+            secrets: options.secrets || [],
+        };
+        return this.dispatch(event, event.extensions.correlation_id);
+    }
+
+    /**
+     * Wait for a message sent by a handler matching the predicate,
+     * including messages sent before calling this method
+     */
+    public waitForMessage(predicate: (message: HandlerResponse) => boolean = () => true,
+                          timeout: number = this.options.timeout): Promise<HandlerResponse> {
+        const sent = this.messages.find(predicate);
+        return sent ? Promise.resolve(sent) : this.waitFor(m => !m.status && predicate(m), timeout);
+    }
+
+    /**
+     * Wait for a client to connect to the WebSocket feed
+     */
+    public waitForConnection(timeout: number = this.options.timeout): Promise<void> {
+        if (this.connected()) {
+            return Promise.resolve();
+        }
+        return new Promise<void>((resolve, reject) => {
+            const timer = setTimeout(() => {
+                this.wss.removeListener("connection", connected);
+                reject(new Error(`No client connected within ${timeout}ms`));
+            }, timeout);
+            const connected = () => {
+                clearTimeout(timer);
+                resolve();
+            };
+            this.wss.once("connection", connected);
+        });
+    }
+
+    private dispatch(request: CommandIncoming | EventIncoming, correlationId: string): Promise<HandlerResponse> {
+        if (!this.connected()) {
+            return Promise.reject(new Error("No client connected to fake automation API"));
+        }
+        const status = this.waitFor(m => !!m.status && m.correlation_id === correlationId, this.options.timeout);
+        this.socket.send(JSON.stringify(request));
+        return status;
+    }
+
+    private waitFor(predicate: (message: HandlerResponse) => boolean, timeout: number): Promise<HandlerResponse> {
+        return new Promise<HandlerResponse>((resolve, reject) => {
+            const waiter: Waiter = {
+                predicate,
+                resolve,
+                reject,
+                timer: setTimeout(() => {
+                    this.waiters = this.waiters.filter(w => w !== waiter);
+                    reject(new Error(`No matching message received within ${timeout}ms`));
+                }, timeout),
+            };
+            this.waiters.push(waiter);
+        });
+    }
+
+    private register(req: express.Request, res: express.Response): void {
+        if (!req.get("authorization")) {
+            res.status(401).json({ message: "Missing API key" });
+            return;
+        }
+        this.registrations.push(req.body);
+        const registration: RegistrationConfirmation = {
+            url: `${this.url.replace(/^http/, "ws")}/ws`,
+            jwt: "fake-jwt",
+            name: req.body.name,
+            version: req.body.version,
+        };
+        res.json(registration);
+    }
+
+    private graphql(req: express.Request, res: express.Response): void {
+        const request: GraphQLRequest = {
+            workspaceId: req.params.workspaceId,
+            query: req.body.query,
+            variables: req.body.variables,
+            operationName: req.body.operationName,
+        };
+        this.queries.push(request);
+        Promise.resolve()
+            .then(() => this.graphQLResponder(request))
+            .then(data => res.json({ data }), err => res.json({ errors: [{ message: err.message }] }));
+    }
+
+    private connect(ws: WebSocket): void {
+        if (this.socket) {
+            this.socket.terminate();
+        }
+        this.socket = ws;
+        ws.on("message", (data: WebSocket.Data) => {
+            let message: any;
+            try {
+                message = JSON.parse(data.toString());
+            } catch (e) {
+                logger.warn("Fake automation API received invalid message: %s", data);
+                return;
+            }
+            if (message.ping !== undefined) {
+                ws.send(JSON.stringify({ pong: message.ping }));
+                return;
+            }
+            logger.debug("Fake automation API received message: %s", stringify(message));
+            (message.status ? this.statuses : this.messages).push(message);
+            this.waiters.filter(w => w.predicate(message)).forEach(w => {
+                clearTimeout(w.timer);
+                this.waiters = this.waiters.filter(o => o !== w);
+                w.resolve(message);
+            });
+        });
+    }
+}
@@ -1,3 +1,4 @@
+import * as _ from "lodash";
 import * as logform from "logform";
 
 const redactions: Array<{ redacted: RegExp, replacement: string }> = [];
@@ -15,6 +16,14 @@ export function addRedaction(redacted: RegExp, suggestedReplacement?: string) {
     redactions.push({ redacted, replacement });
 }
 
+/**
+ * Stop redacting what the regular expression, previously passed to
+ * addRedaction, matches, e.g., after reloading the redaction patterns.
+ */
+export function removeRedaction(redacted: RegExp): void {
+    _.remove(redactions, r => r.redacted === redacted);
+}
+
 /**
  * @deprecated use addRedaction
  */
@@ -1,6 +1,7 @@
 import promiseRetry = require("promise-retry");
 import { WrapOptions } from "retry";
 
+import { CancellationError } from "../internal/invoker/cancellation";
 import { logger } from "./logger";
 
 /**
@@ -40,6 +41,9 @@ export function doWithRetry<R>(what: () => Promise<R>,
     return promiseRetry(retryOptions, retry => {
         return what()
             .catch(err => {
+                if (err instanceof CancellationError) {
+                    throw err;
+                }
                 if (opts.log) {
                     logger.warn(`Error occurred attempting '${description}': ${err.message}`);
                 }
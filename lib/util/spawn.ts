@@ -24,11 +24,13 @@ import * as os from "os";
 import * as path from "path";
 import strip_ansi = require("strip-ansi");
 import * as treeKill from "tree-kill";
+import { cancellationSignal } from "../internal/invoker/cancellation";
 import {
     killProcess,
     WritableLog,
 } from "./child_process";
 import { logger } from "./logger";
+import { traced } from "./tracing";
 
 export { spawn };
 
@@ -121,7 +123,24 @@ export async function spawnAndWatch(spawnCommand: SpawnCommand,
         log.write(`${options.cwd || path.resolve(".")} > ${stringifySpawnCommand(spawnCommand)} (pid '${childProcess.pid}')\n`);
         log.write(`\\--\n`);
     }
-    return watchSpawned(childProcess, log, spOpts);
+    // Kill the process if the handler invocation that started it gets cancelled
+    const cancellation = cancellationSignal();
+    const unregister = cancellation ? cancellation.onCancel(reason => {
+        logger.debug(`Killing process ${childProcess.pid}: ${reason}`);
+        killProcess(childProcess.pid);
+    }) : () => { /* intentionally empty */ };
+    return traced(`spawn ${spawnCommand.command}`, "spawn", { command: stringifySpawnCommand(spawnCommand), pid: childProcess.pid },
+        async span => {
+            try {
+                const result = await watchSpawned(childProcess, log, spOpts);
+                if (span) {
+                    span.span.attributes.code = result.code;
+                }
+                return result;
+            } finally {
+                unregister();
+            }
+        });
 }
 
 /**
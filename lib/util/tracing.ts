@@ -0,0 +1,269 @@
+import * as crypto from "crypto";
+import * as fs from "fs-extra";
+import * as stringify from "json-stringify-safe";
+import * as p from "path";
+import * as trace from "stack-trace";
+import { EventFired } from "../HandleEvent";
+import {
+    AutomationContextAware,
+    HandlerContext,
+} from "../HandlerContext";
+import { HandlerResult } from "../HandlerResult";
+import { CommandInvocation } from "../internal/invoker/Payload";
+import * as namespace from "../internal/util/cls";
+import { AutomationEventListenerSupport } from "../server/AutomationEventListener";
+import {
+    GraphClient,
+    MutationOptions,
+    QueryOptions,
+} from "../spi/graph/GraphClient";
+import { logger } from "./logger";
+
+/**
+ * A timed operation within a command or event handler invocation.
+ */
+export interface Span {
+
+    traceId: string;
+    spanId: string;
+    /** Id of the invocation span this span is a child of */
+    parentSpanId?: string;
+    correlationId: string;
+    name: string;
+    kind: "command" | "event" | "http" | "graphql" | "spawn";
+    start: number;
+    end?: number;
+    duration?: number;
+    status?: "ok" | "error";
+    attributes: { [key: string]: any };
+}
+
+/**
+ * Exports finished spans to a tracing backend.
+ */
+export interface SpanExporter {
+
+    export(spans: Span[]): Promise<void>;
+}
+
+/**
+ * SpanExporter that writes finished spans to the log.
+ */
+export class ConsoleSpanExporter implements SpanExporter {
+
+    public export(spans: Span[]): Promise<void> {
+        spans.forEach(s => logger.info("Span '%s' (%s) took %sms: %s", s.name, s.kind, s.duration, stringify(s)));
+        return Promise.resolve();
+    }
+}
+
+/**
+ * SpanExporter that appends finished spans as JSON lines to a file.
+ */
+export class FileSpanExporter implements SpanExporter {
+
+    constructor(private readonly path: string) {
+        fs.mkdirsSync(p.dirname(path));
+    }
+
+    public export(spans: Span[]): Promise<void> {
+        return fs.appendFile(this.path, spans.map(s => stringify(s) + "\n").join(""));
+    }
+}
+
+/**
+ * Handle to a started span.
+ */
+export interface ActiveSpan {
+
+    span: Span;
+
+    /** Finish the span, marking it as failed if an error is provided */
+    end(error?: any): void;
+}
+
+interface Invocation {
+    root: Span;
+    children: Span[];
+    exporter: SpanExporter;
+}
+
+const invocations = new Map<string, Invocation>();
+
+/**
+ * Start a span as child of the invocation span of the command or event
+ * handler running in the current execution context.  Returns undefined
+ * if tracing is not enabled or there is no traced invocation.
+ */
+export function startSpan(name: string,
+                          kind: Span["kind"],
+                          attributes: { [key: string]: any } = {}): ActiveSpan | undefined {
+    const context = namespace.get();
+    const invocation = context && context.invocationId ? invocations.get(context.invocationId) : undefined;
+    if (!invocation) {
+        return undefined;
+    }
+
+    const span: Span = {
+        traceId: invocation.root.traceId,
+        spanId: randomId(8),
+        parentSpanId: invocation.root.spanId,
+        correlationId: invocation.root.correlationId,
+        name,
+        kind,
+        start: Date.now(),
+        attributes,
+    };
+    invocation.children.push(span);
+    return {
+        span,
+        end: error => {
+            finish(span, error);
+            // Spans finishing after their invocation get exported on their own
+            if (invocation.root.end) {
+                exportSpans(invocation.exporter, [span]);
+            }
+        },
+    };
+}
+
+/**
+ * Run the given function in a child span of the current invocation span.
+ */
+export async function traced<T>(name: string,
+                                kind: Span["kind"],
+                                attributes: { [key: string]: any },
+                                fn: (span?: ActiveSpan) => Promise<T>): Promise<T> {
+    const span = startSpan(name, kind, attributes);
+    if (!span) {
+        return fn();
+    }
+    try {
+        const result = await fn(span);
+        span.end();
+        return result;
+    } catch (e) {
+        span.end(e);
+        throw e;
+    }
+}
+
+/**
+ * AutomationEventListener that opens a span for every command and event
+ * handler invocation.  HTTP requests made with the default HttpClient,
+ * GraphClient queries and mutations as well as processes started with
+ * spawnAndWatch get recorded as child spans of the invocation span.
+ */
+export class TracingAutomationEventListener extends AutomationEventListenerSupport {
+
+    constructor(private readonly exporter: SpanExporter = new ConsoleSpanExporter()) {
+        super();
+    }
+
+    public commandStarting(payload: CommandInvocation, ctx: HandlerContext): void {
+        this.startInvocation(payload.name, "command", ctx);
+    }
+
+    public commandSuccessful(payload: CommandInvocation, ctx: HandlerContext, result: HandlerResult): Promise<void> {
+        this.endInvocation(ctx);
+        return Promise.resolve();
+    }
+
+    public commandFailed(payload: CommandInvocation, ctx: HandlerContext, err: any): Promise<void> {
+        this.endInvocation(ctx, err || true);
+        return Promise.resolve();
+    }
+
+    public eventStarting(payload: EventFired<any>, ctx: HandlerContext): void {
+        this.startInvocation(payload.extensions.operationName, "event", ctx);
+    }
+
+    public eventSuccessful(payload: EventFired<any>, ctx: HandlerContext, result: HandlerResult[]): Promise<void> {
+        this.endInvocation(ctx);
+        return Promise.resolve();
+    }
+
+    public eventFailed(payload: EventFired<any>, ctx: HandlerContext, err: any): Promise<void> {
+        this.endInvocation(ctx, err || true);
+        return Promise.resolve();
+    }
+
+    private startInvocation(name: string, kind: "command" | "event", ctx: HandlerContext): void {
+        const context = (ctx as any as AutomationContextAware).context;
+        if (!context || !context.invocationId) {
+            return;
+        }
+        invocations.set(context.invocationId, {
+            root: {
+                traceId: randomId(16),
+                spanId: randomId(8),
+                correlationId: context.correlationId,
+                name,
+                kind,
+                start: Date.now(),
+                attributes: {
+                    workspace_id: context.workspaceId,
+                    invocation_id: context.invocationId,
+                    automation: `${context.name}:${context.version}`,
+                },
+            },
+            children: [],
+            exporter: this.exporter,
+        });
+        if (ctx.graphClient) {
+            ctx.graphClient = tracedGraphClient(ctx.graphClient);
+        }
+    }
+
+    private endInvocation(ctx: HandlerContext, error?: any): void {
+        const context = (ctx as any as AutomationContextAware).context;
+        const invocation = context ? invocations.get(context.invocationId) : undefined;
+        if (!invocation) {
+            return;
+        }
+        invocations.delete(context.invocationId);
+        finish(invocation.root, error);
+        exportSpans(this.exporter, [invocation.root, ...invocation.children.filter(c => !!c.end)]);
+    }
+}
+
+function tracedGraphClient(graphClient: GraphClient): GraphClient {
+    // Copy the options so that the moduleDir of the caller doesn't leak into options shared by handlers
+    const withModuleDir = (optionsOrName: any, moduleDir: string) => {
+        const options = typeof optionsOrName === "string" ? { name: optionsOrName } : optionsOrName;
+        return { ...options, moduleDir: options.moduleDir || moduleDir };
+    };
+    return {
+        endpoint: graphClient.endpoint,
+        query: <T, Q>(optionsOrName: QueryOptions<Q> | string) => {
+            const options = withModuleDir(optionsOrName, trace.get()[1].getFileName());
+            return traced(`query ${options.name || options.path || "<inline>"}`, "graphql",
+                { endpoint: graphClient.endpoint },
+                () => graphClient.query<T, Q>(options));
+        },
+        mutate: <T, Q>(optionsOrName: MutationOptions<Q> | string) => {
+            const options = withModuleDir(optionsOrName, trace.get()[1].getFileName());
+            return traced(`mutation ${options.name || options.path || "<inline>"}`, "graphql",
+                { endpoint: graphClient.endpoint },
+                () => graphClient.mutate<T, Q>(options));
+        },
+    };
+}
+
+function finish(span: Span, error?: any): void {
+    span.end = Date.now();
+    span.duration = span.end - span.start;
+    span.status = error ? "error" : "ok";
+    if (error instanceof Error) {
+        span.attributes.error = error.message;
+    }
+}
+
+function exportSpans(exporter: SpanExporter, spans: Span[]): void {
+    exporter.export(spans)
+        .catch(e => logger.warn("Failed to export spans: %s", e.message));
+}
+
+function randomId(bytes: number): string {
+    return crypto.randomBytes(bytes).toString("hex");
+}
@@ -16,6 +16,15 @@ import {
 
 describe("atomistWebhook", () => {
 
+    let mock: MockAdapter;
+
+    afterEach(() => {
+        if (mock) {
+            mock.restore();
+            mock = undefined;
+        }
+    });
+
     const noRetryOptions = {
         retries: 0,
     };
@@ -43,7 +52,7 @@ describe("atomistWebhook", () => {
 
         it("should successfully post", async () => {
             let posted = false;
-            const mock = new MockAdapter(axios);
+            mock = new MockAdapter(axios);
             mock.onPost(url, payload).replyOnce(config => {
                 posted = true;
                 return [200];
@@ -55,7 +64,7 @@ describe("atomistWebhook", () => {
 
         it("should retry", async () => {
             let posted = false;
-            const mock = new MockAdapter(axios);
+            mock = new MockAdapter(axios);
             mock
                 .onPost(url, payload).replyOnce(500)
                 .onPost(url, payload).replyOnce(config => {
@@ -71,7 +80,7 @@ describe("atomistWebhook", () => {
             let posted = false;
             process.env.ATOMIST_WEBHOOK_BASEURL = "https://united-artists.com:1978";
             const envUrl = `${process.env.ATOMIST_WEBHOOK_BASEURL}/${urlTail}`;
-            const mock = new MockAdapter(axios);
+            mock = new MockAdapter(axios);
             mock.onPost(envUrl, payload).replyOnce(config => {
                 posted = true;
                 return [200];
@@ -84,7 +93,7 @@ describe("atomistWebhook", () => {
 
         it("should fail when looking for different payload", async () => {
             let posted = false;
-            const mock = new MockAdapter(axios);
+            mock = new MockAdapter(axios);
             mock.onPost(url, {}).replyOnce(config => {
                 posted = true;
                 return [200];
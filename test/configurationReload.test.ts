@@ -0,0 +1,120 @@
+import * as fs from "fs-extra";
+import * as _ from "lodash";
+import "mocha";
+import * as path from "path";
+import * as assert from "power-assert";
+import * as tmp from "tmp-promise";
+import { Configuration } from "../lib/configuration";
+import {
+    ConfigurationChange,
+    ConfigurationReloader,
+    onConfigurationChange,
+} from "../lib/configurationReload";
+
+describe("configurationReload", () => {
+
+    const cfg: Configuration = {
+        name: "foo",
+        version: "1.0.0",
+        workspaceIds: ["T123"],
+        logging: { level: "info" },
+        http: { port: 2866, rateLimit: { enabled: true, client: { rate: 1 } } },
+        commands: [() => undefined],
+        custom: { greeting: "Hello" },
+    };
+
+    let changes: ConfigurationChange[];
+    let unsubscribe: () => void;
+
+    beforeEach(() => {
+        changes = [];
+        unsubscribe = onConfigurationChange(change => {
+            changes.push(change);
+        });
+    });
+
+    afterEach(() => {
+        unsubscribe();
+    });
+
+    describe("ConfigurationReloader", () => {
+
+        it("should apply changes of reloadable keys", async () => {
+            const configuration = _.cloneDeep(cfg);
+            const next = _.merge(_.cloneDeep(cfg), {
+                logging: { level: "debug" },
+                http: { rateLimit: { client: { rate: 2 } } },
+                custom: { greeting: "Hi" },
+            });
+            const reloader = new ConfigurationReloader(configuration, { files: [], load: async () => next });
+            const change = await reloader.reload();
+            assert.deepStrictEqual(change.keys, ["custom.greeting", "http.rateLimit.client.rate", "logging.level"]);
+            assert(change.previous["logging.level"] === "info");
+            assert(configuration.logging.level === "debug");
+            assert(configuration.http.rateLimit.client.rate === 2);
+            assert(configuration.custom.greeting === "Hi");
+            assert(changes.length === 1);
+            assert(changes[0].configuration === configuration);
+        });
+
+        it("should apply changes of keys declared reloadable", async () => {
+            const configuration = _.cloneDeep(cfg);
+            const next = _.merge(_.cloneDeep(cfg), { http: { port: 2867 } });
+            const reloader = new ConfigurationReloader(configuration,
+                { files: [], keys: ["http.port"], load: async () => next });
+            const change = await reloader.reload();
+            assert.deepStrictEqual(change.keys, ["http.port"]);
+            assert(configuration.http.port === 2867);
+        });
+
+        it("should refuse changes of non-reloadable keys", async () => {
+            const configuration = _.cloneDeep(cfg);
+            const next = _.merge(_.cloneDeep(cfg), { workspaceIds: ["T456"], logging: { level: "debug" } });
+            const reloader = new ConfigurationReloader(configuration, { files: [], load: async () => next });
+            try {
+                await reloader.reload();
+                assert.fail();
+            } catch (e) {
+                assert(e.message === "Refusing to reload configuration with changes of non-reloadable keys 'workspaceIds'");
+            }
+            assert.deepStrictEqual(configuration.workspaceIds, ["T123"]);
+            assert(configuration.logging.level === "info");
+            assert(changes.length === 0);
+        });
+
+        it("should ignore runtime changes and code", async () => {
+            const configuration = _.cloneDeep(cfg);
+            const reloader = new ConfigurationReloader(configuration,
+                { files: [], load: async () => ({ ..._.cloneDeep(cfg), commands: [] }) });
+            configuration.http.port = 1234;
+            assert(await reloader.reload() === undefined);
+            assert(configuration.http.port === 1234);
+            assert(changes.length === 0);
+        });
+
+        it("should reload when watched file changes", async () => {
+            const dir = await tmp.dir({ unsafeCleanup: true });
+            const file = path.join(dir.path, "client.config.json");
+            await fs.writeJson(file, cfg.custom);
+            const configuration = _.cloneDeep(cfg);
+            const reloader = new ConfigurationReloader(configuration, {
+                files: [file],
+                interval: 20,
+                load: async () => ({ ..._.cloneDeep(cfg), custom: await fs.readJson(file) }),
+            });
+            let unsubscribeWatch: () => void;
+            try {
+                reloader.watch();
+                await new Promise<void>(resolve => setTimeout(resolve, 100));
+                const changed = new Promise<ConfigurationChange>(resolve => unsubscribeWatch = onConfigurationChange(resolve));
+                await fs.writeJson(file, { greeting: "Howdy" });
+                assert.deepStrictEqual((await changed).keys, ["custom.greeting"]);
+                assert(configuration.custom.greeting === "Howdy");
+            } finally {
+                unsubscribeWatch();
+                reloader.close();
+                dir.cleanup();
+            }
+        });
+    });
+});
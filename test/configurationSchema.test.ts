@@ -0,0 +1,97 @@
+import "mocha";
+import * as assert from "power-assert";
+import {
+    LocalDefaultConfiguration,
+    mergeConfigs,
+    ProductionDefaultConfiguration,
+    TestingDefaultConfiguration,
+    validateConfiguration,
+} from "../lib/configuration";
+import {
+    UserConfigSchema,
+    validateConfigurationSchema,
+} from "../lib/configurationSchema";
+
+describe("configurationSchema", () => {
+
+    describe("validateConfigurationSchema", () => {
+
+        it("should accept default configurations", () => {
+            assert.deepStrictEqual(validateConfigurationSchema(LocalDefaultConfiguration), []);
+            assert.deepStrictEqual(validateConfigurationSchema(
+                mergeConfigs({}, LocalDefaultConfiguration, ProductionDefaultConfiguration)), []);
+            assert.deepStrictEqual(validateConfigurationSchema(
+                mergeConfigs({}, LocalDefaultConfiguration, TestingDefaultConfiguration)), []);
+        });
+
+        it("should accept custom top-level keys", () => {
+            assert.deepStrictEqual(validateConfigurationSchema({ sdm: { goals: { enabled: true } } }), []);
+        });
+
+        it("should report unknown nested keys with suggestion", () => {
+            const errors = validateConfigurationSchema({ cluster: { worker: 2 }, logging: { levle: "info" } });
+            assert.deepStrictEqual(errors, [
+                { path: "cluster.worker", message: "Unknown key, did you mean 'workers'?" },
+                { path: "logging.levle", message: "Unknown key, did you mean 'level'?" },
+            ]);
+        });
+
+        it("should report unknown nested keys without suggestion", () => {
+            const errors = validateConfigurationSchema({ statsd: { foo: "bar" } });
+            assert.deepStrictEqual(errors, [{ path: "statsd.foo", message: "Unknown key" }]);
+        });
+
+        it("should report mistyped values", () => {
+            const errors = validateConfigurationSchema({
+                workspaceIds: "T123",
+                http: { port: "2866" },
+                logging: { level: "loud" },
+                redact: { patterns: [{ replacement: "x" }] },
+            });
+            assert.deepStrictEqual(errors, [
+                { path: "workspaceIds", message: "Must be array" },
+                { path: "http.port", message: "Must be integer" },
+                { path: "logging.level", message: "Must be one of 'silly', 'debug', 'verbose', 'info', 'warn', 'error'" },
+                { path: "redact.patterns[0].regexp", message: "Required but missing" },
+            ]);
+        });
+
+        it("should report keys of user config modules", () => {
+            const errors = validateConfigurationSchema({
+                modules: [{ name: "foo", cluster: { enabled: "yes" } }, { version: "1.0.0" }],
+            }, UserConfigSchema);
+            assert.deepStrictEqual(errors, [
+                { path: "modules[0].cluster.enabled", message: "Must be boolean" },
+                { path: "modules[1].name", message: "Required but missing" },
+            ]);
+        });
+    });
+
+    describe("validateConfiguration", () => {
+
+        const cfg = {
+            name: "foo",
+            version: "1.0.0",
+            apiKey: "xxx",
+            workspaceIds: ["T123"],
+            cluster: { worker: 2 } as any,
+        };
+
+        it("should only warn about unknown keys by default", () => {
+            validateConfiguration({ ...cfg });
+        });
+
+        it("should fail on unknown keys", () => {
+            try {
+                validateConfiguration({ ...cfg, validation: "fail" });
+                assert.fail();
+            } catch (e) {
+                assert(e.message.includes("'cluster.worker': Unknown key, did you mean 'workers'?"));
+            }
+        });
+
+        it("should skip validation when off", () => {
+            validateConfiguration({ ...cfg, validation: "off", cluster: { enabled: "yes" } as any });
+        });
+    });
+});
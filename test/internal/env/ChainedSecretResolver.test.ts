@@ -0,0 +1,66 @@
+import "mocha";
+import * as assert from "power-assert";
+import { ChainedSecretResolver } from "../../../lib/internal/env/ChainedSecretResolver";
+import { SecretResolver } from "../../../lib/spi/env/SecretResolver";
+
+describe("ChainedSecretResolver", () => {
+
+    class CountingSecretResolver implements SecretResolver {
+        public count: number = 0;
+
+        constructor(private readonly secrets: { [key: string]: string }) {
+        }
+
+        public resolve(key: string): Promise<string> {
+            this.count++;
+            if (this.secrets[key]) {
+                return Promise.resolve(this.secrets[key]);
+            }
+            return Promise.reject(new Error(`Failed to resolve '${key}'`));
+        }
+    }
+
+    it("should try resolvers in order", async () => {
+        const first = new CountingSecretResolver({ "github://org_token": "first" });
+        const second = new CountingSecretResolver({ "github://org_token": "second", "github://user_token": "user" });
+        const resolver = new ChainedSecretResolver([first, second]);
+        assert(await resolver.resolve("github://org_token") === "first");
+        assert(await resolver.resolve("github://user_token") === "user");
+        assert(first.count === 2);
+        assert(second.count === 1);
+    });
+
+    it("should support synchronous resolvers", async () => {
+        const resolver = new ChainedSecretResolver([{ resolve: () => "sync" }]);
+        assert(await resolver.resolve("github://org_token") === "sync");
+    });
+
+    it("should cache resolved secrets until ttl expires", async () => {
+        const delegate = new CountingSecretResolver({ "github://org_token": "token" });
+        const resolver = new ChainedSecretResolver([delegate], { ttl: 20 });
+        await resolver.resolve("github://org_token");
+        await resolver.resolve("github://org_token");
+        assert(delegate.count === 1);
+        await new Promise<void>(resolve => setTimeout(resolve, 50));
+        await resolver.resolve("github://org_token");
+        assert(delegate.count === 2);
+    });
+
+    it("should not cache with ttl of 0", async () => {
+        const delegate = new CountingSecretResolver({ "github://org_token": "token" });
+        const resolver = new ChainedSecretResolver([delegate], { ttl: 0 });
+        await resolver.resolve("github://org_token");
+        await resolver.resolve("github://org_token");
+        assert(delegate.count === 2);
+    });
+
+    it("should fail with errors of all resolvers", async () => {
+        const resolver = new ChainedSecretResolver([new CountingSecretResolver({}), new CountingSecretResolver({})]);
+        try {
+            await resolver.resolve("github://org_token");
+            assert.fail();
+        } catch (e) {
+            assert(e.message.startsWith("Failed to resolve 'github://org_token' with any of 2 secret resolvers: "));
+        }
+    });
+});
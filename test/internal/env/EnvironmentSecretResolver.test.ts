@@ -0,0 +1,32 @@
+import "mocha";
+import * as assert from "power-assert";
+import { EnvironmentSecretResolver } from "../../../lib/internal/env/EnvironmentSecretResolver";
+
+describe("EnvironmentSecretResolver", () => {
+
+    const env = {
+        GITHUB_ORG_TOKEN: "token",
+        SECRET_SLACK_BOT_TOKEN: "xoxb",
+    };
+
+    it("should resolve secret from environment variable of prefix", () => {
+        const resolver = new EnvironmentSecretResolver({ "github://": "GITHUB_", "atomist://": "SECRET_" }, env);
+        assert(resolver.resolve("github://org_token") === "token");
+        assert(resolver.resolve("atomist://slack.bot-token") === "xoxb");
+    });
+
+    it("should use longest matching prefix", () => {
+        const resolver = new EnvironmentSecretResolver({ "": "NONE_", "github://": "GITHUB_" }, env);
+        assert(resolver.resolve("github://org_token") === "token");
+    });
+
+    it("should fail for unset environment variable", () => {
+        const resolver = new EnvironmentSecretResolver({ "github://": "GITHUB_" }, env);
+        assert.throws(() => resolver.resolve("github://user_token"), /environment variable 'GITHUB_USER_TOKEN' not set/);
+    });
+
+    it("should fail for key without matching prefix", () => {
+        const resolver = new EnvironmentSecretResolver({ "github://": "GITHUB_" }, env);
+        assert.throws(() => resolver.resolve("atomist://slack.bot-token"), /no environment variable prefix configured/);
+    });
+});
@@ -0,0 +1,53 @@
+import * as fs from "fs-extra";
+import "mocha";
+import * as p from "path";
+import * as assert from "power-assert";
+import * as tmp from "tmp-promise";
+import { FileSecretResolver } from "../../../lib/internal/env/FileSecretResolver";
+
+describe("FileSecretResolver", () => {
+
+    let dir: tmp.DirectoryResult;
+    let resolver: FileSecretResolver;
+
+    before(async () => {
+        dir = await tmp.dir({ unsafeCleanup: true });
+        await fs.outputFile(p.join(dir.path, "github", "org_token"), "token\n");
+        await fs.outputFile(p.join(dir.path, "github", "orgs", "atomist"), "atomist-token");
+        await fs.outputFile(p.join(dir.path, "github", "empty"), "");
+        await fs.outputFile(p.join(dir.path, "other"), "other");
+        resolver = new FileSecretResolver({ "github://": p.join(dir.path, "github") });
+    });
+
+    after(() => {
+        dir.cleanup();
+    });
+
+    it("should resolve secret from file without trailing line break", async () => {
+        assert(await resolver.resolve("github://org_token") === "token");
+    });
+
+    it("should resolve secret from nested file", async () => {
+        assert(await resolver.resolve("github://orgs/atomist") === "atomist-token");
+    });
+
+    it("should fail for missing and empty files", async () => {
+        for (const key of ["github://user_token", "github://empty"]) {
+            try {
+                await resolver.resolve(key);
+                assert.fail();
+            } catch (e) {
+                assert(e.message.startsWith(`Failed to resolve '${key}'`));
+            }
+        }
+    });
+
+    it("should not resolve files outside of directory", async () => {
+        try {
+            await resolver.resolve("github://../other");
+            assert.fail();
+        } catch (e) {
+            assert(e.message.includes("invalid secret file name"));
+        }
+    });
+});
@@ -0,0 +1,94 @@
+import * as express from "express";
+import * as http from "http";
+import "mocha";
+import { AddressInfo } from "net";
+import * as assert from "power-assert";
+import { VaultSecretResolver } from "../../../lib/internal/env/VaultSecretResolver";
+
+describe("VaultSecretResolver", () => {
+
+    let server: http.Server;
+    let url: string;
+    const requests: express.Request[] = [];
+
+    before(async () => {
+        const exp = express();
+        exp.get("/v1/:mount/*", (req, res) => {
+            requests.push(req);
+            if (req.get("X-Vault-Token") !== "s.token") {
+                res.status(403).json({ errors: ["permission denied"] });
+            } else if (req.params.mount === "secret" && req.params[0] === "data/automation/github") {
+                res.json({ data: { data: { org_token: "token", webhook_secret: "", retries: 0 }, metadata: { version: 1 } } });
+            } else if (req.params.mount === "kv" && req.params[0] === "automation/github") {
+                res.json({ data: { org_token: "v1-token" } });
+            } else {
+                res.status(404).json({ errors: [] });
+            }
+        });
+        server = http.createServer(exp);
+        await new Promise<void>(resolve => server.listen(0, resolve));
+        url = `http://localhost:${(server.address() as AddressInfo).port}`;
+    });
+
+    after(async () => {
+        await new Promise<void>(resolve => server.close(() => {
+            resolve();
+        }));
+    });
+
+    beforeEach(() => {
+        requests.splice(0, requests.length);
+    });
+
+    it("should resolve field of KV version 2 secret", async () => {
+        const resolver = new VaultSecretResolver({
+            url,
+            token: "s.token",
+            namespace: "atomist",
+            paths: { "github://": "automation/github" },
+        });
+        assert(await resolver.resolve("github://org_token") === "token");
+        assert(requests[0].get("X-Vault-Namespace") === "atomist");
+    });
+
+    it("should resolve field of KV version 1 secret", async () => {
+        const resolver = new VaultSecretResolver({
+            url,
+            token: "s.token",
+            mount: "kv",
+            version: 1,
+            paths: { "github://": "automation" },
+        });
+        assert(await resolver.resolve("github://github/org_token") === "v1-token");
+    });
+
+    it("should resolve falsy field values", async () => {
+        const resolver = new VaultSecretResolver({ url, token: "s.token", paths: { "github://": "automation/github" } });
+        assert(await resolver.resolve("github://webhook_secret") === "");
+        assert(await resolver.resolve("github://retries") === "0");
+    });
+
+    it("should fail for missing field", async () => {
+        const resolver = new VaultSecretResolver({ url, token: "s.token", paths: { "github://": "automation/github" } });
+        try {
+            await resolver.resolve("github://user_token");
+            assert.fail();
+        } catch (e) {
+            assert(e.message.includes("field 'user_token' not found in Vault secret 'automation/github'"));
+        }
+    });
+
+    it("should fail for missing secret and invalid token", async () => {
+        for (const options of [
+            { url, token: "s.token", paths: { "github://": "automation/gitlab" } },
+            { url, token: "s.invalid", paths: { "github://": "automation/github" } },
+        ]) {
+            try {
+                await new VaultSecretResolver(options).resolve("github://org_token");
+                assert.fail();
+            } catch (e) {
+                assert(e.message.startsWith("Failed to resolve 'github://org_token'"));
+            }
+        }
+    });
+});
@@ -0,0 +1,110 @@
+import * as fs from "fs-extra";
+import "mocha";
+import * as p from "path";
+import * as assert from "power-assert";
+import * as tmp from "tmp-promise";
+import { FileEventStore } from "../../../lib/internal/event/FileEventStore";
+import {
+    CommandIncoming,
+    EventIncoming,
+} from "../../../lib/internal/transport/RequestProcessor";
+
+describe("FileEventStore", () => {
+
+    let dir: tmp.DirectoryResult;
+
+    beforeEach(async () => {
+        dir = await tmp.dir({ unsafeCleanup: true });
+    });
+
+    afterEach(() => {
+        dir.cleanup();
+    });
+
+    function event(id: string): EventIncoming {
+        return {
+            data: { Push: [{ sha: id }] },
+            extensions: {
+                team_id: "T123",
+                operationName: "HelloWorld",
+                correlation_id: id,
+            },
+            secrets: [{ uri: "github://org_token", value: "supersecret" }],
+        };
+    }
+
+    function command(id: string): CommandIncoming {
+        return {
+            correlation_id: id,
+            command: "HelloWorld",
+            team: { id: "T123" },
+            source: { user_agent: "web" },
+            parameters: [],
+            mapped_parameters: [],
+            secrets: [{ uri: "github://user_token?scopes=repo", value: "supersecret" }],
+        };
+    }
+
+    it("should survive a restart", () => {
+        const store = new FileEventStore({ directory: dir.path });
+        store.recordEvent(event("e1"));
+        store.recordCommand(command("c1"));
+        store.recordMessage("m1", "c1", { text: "Hello" });
+
+        const restarted = new FileEventStore({ directory: dir.path });
+        assert.deepStrictEqual(restarted.events().map(e => e.key.correlationId), ["e1"]);
+        assert.deepStrictEqual(restarted.commands().map(e => e.key.correlationId), ["c1"]);
+        assert.deepStrictEqual(restarted.messages().map(e => e.value), [{ text: "Hello" }]);
+    });
+
+    it("should not write secrets to disk", () => {
+        const store = new FileEventStore({ directory: dir.path });
+        const e = event("e1");
+        store.recordEvent(e);
+        store.recordCommand(command("c1"));
+
+        assert(e.secrets[0].value === "supersecret");
+        const events = fs.readFileSync(p.join(dir.path, "events.log"), "utf8");
+        const commands = fs.readFileSync(p.join(dir.path, "commands.log"), "utf8");
+        assert(!events.includes("supersecret"));
+        assert(!commands.includes("supersecret"));
+        assert(events.includes("s*********t"));
+    });
+
+    it("should only retain maxEntries entries", () => {
+        const store = new FileEventStore({ directory: dir.path, maxEntries: 2 });
+        ["e1", "e2", "e3", "e4", "e5", "e6"].forEach(id => store.recordEvent(event(id)));
+
+        assert.deepStrictEqual(store.events().map(e => e.key.correlationId), ["e5", "e6"]);
+        const lines = fs.readFileSync(p.join(dir.path, "events.log"), "utf8").split("\n").filter(l => !!l);
+        assert(lines.length <= 4);
+
+        const restarted = new FileEventStore({ directory: dir.path, maxEntries: 2 });
+        assert.deepStrictEqual(restarted.events().map(e => e.key.correlationId), ["e5", "e6"]);
+    });
+
+    it("should drop entries older than maxAge on restart", () => {
+        const now = Date.now();
+        fs.writeFileSync(p.join(dir.path, "commands.log"), [
+            JSON.stringify({ key: { guid: "c1", correlationId: "c1", ts: now - 60000 }, value: command("c1") }),
+            "not json",
+            JSON.stringify({ key: { guid: "c2", correlationId: "c2", ts: now }, value: command("c2") }),
+        ].join("\n") + "\n");
+
+        const store = new FileEventStore({ directory: dir.path, maxAge: 30000 });
+        assert.deepStrictEqual(store.commands().map(e => e.key.correlationId), ["c2"]);
+    });
+
+    it("should neither compact nor append to the logs when read-only", () => {
+        const store = new FileEventStore({ directory: dir.path, maxEntries: 2 });
+        ["e1", "e2", "e3"].forEach(id => store.recordEvent(event(id)));
+        const log = fs.readFileSync(p.join(dir.path, "events.log"), "utf8");
+
+        const readOnly = new FileEventStore({ directory: dir.path, maxEntries: 1, readOnly: true });
+        assert.deepStrictEqual(readOnly.events().map(e => e.key.correlationId), ["e3"]);
+        readOnly.recordEvent(event("e4"));
+        assert.deepStrictEqual(readOnly.events().map(e => e.key.correlationId), ["e4"]);
+        assert(fs.readFileSync(p.join(dir.path, "events.log"), "utf8") === log);
+    });
+
+});
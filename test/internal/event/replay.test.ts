@@ -0,0 +1,111 @@
+import "mocha";
+import * as assert from "power-assert";
+import { HandlerResult } from "../../../lib/HandlerResult";
+import { InMemoryEventStore } from "../../../lib/internal/event/InMemoryEventStore";
+import {
+    findCommand,
+    findEvent,
+    replayCommand,
+    replayEvent,
+    replayOptions,
+} from "../../../lib/internal/event/replay";
+import {
+    CommandIncoming,
+    EventIncoming,
+    RequestProcessor,
+} from "../../../lib/internal/transport/RequestProcessor";
+
+describe("replay", () => {
+
+    const event: EventIncoming = {
+        data: { Push: [{ sha: "abc" }] },
+        extensions: {
+            team_id: "T123",
+            operationName: "HelloWorld",
+            correlation_id: "e1",
+        },
+        secrets: [{ uri: "github://org_token", value: "supersecret" }],
+    };
+
+    const command: CommandIncoming = {
+        correlation_id: "c1",
+        command: "HelloWorld",
+        team: { id: "T123" },
+        source: { user_agent: "web" },
+        parameters: [{ name: "name", value: "Fred" }],
+        mapped_parameters: [],
+        secrets: [{ uri: "github://user_token?scopes=repo", value: "supersecret" }],
+    };
+
+    class RecordingRequestProcessor implements RequestProcessor {
+
+        public commands: CommandIncoming[] = [];
+        public events: EventIncoming[] = [];
+
+        public processCommand(c: CommandIncoming, callback?: (result: Promise<HandlerResult>) => void): void {
+            this.commands.push(c);
+            callback(Promise.resolve({ code: 0 }));
+        }
+
+        public processEvent(e: EventIncoming, callback?: (results: Promise<HandlerResult[]>) => void): void {
+            this.events.push(e);
+            callback(Promise.resolve([{ code: 0 }]));
+        }
+    }
+
+    it("should find recorded event and command by id", () => {
+        const store = new InMemoryEventStore();
+        store.recordEvent(event);
+        store.recordCommand(command);
+        assert(findEvent("e1", store).extensions.operationName === "HelloWorld");
+        assert(findCommand("c1", store).command === "HelloWorld");
+        assert(!findEvent("c1", store));
+        assert(!findCommand("e1", store));
+    });
+
+    it("should replay event with new correlation id and provided secrets", async () => {
+        const processor = new RecordingRequestProcessor();
+        const results = await replayEvent(event, processor, {
+            secrets: [
+                { uri: "github://org_token", value: "anothersecret" },
+                { uri: "atomist://some_secret", value: "123" },
+            ],
+        });
+        assert.deepStrictEqual(results, [{ code: 0 }]);
+        assert(processor.events.length === 1);
+        const replayed = processor.events[0];
+        assert(replayed.extensions.correlation_id !== "e1");
+        assert.deepStrictEqual(replayed.data, event.data);
+        assert.deepStrictEqual(replayed.secrets, [
+            { uri: "github://org_token", value: "anothersecret" },
+            { uri: "atomist://some_secret", value: "123" },
+        ]);
+        assert(event.secrets[0].value === "supersecret");
+    });
+
+    it("should replay command with new correlation id", async () => {
+        const processor = new RecordingRequestProcessor();
+        const result = await replayCommand(command, processor);
+        assert(result.code === 0);
+        const replayed = processor.commands[0];
+        assert(replayed.correlation_id !== "c1");
+        assert.deepStrictEqual(replayed.parameters, command.parameters);
+        assert.deepStrictEqual(replayed.secrets, command.secrets);
+    });
+
+    it("should only pick known replay options", () => {
+        assert.deepStrictEqual(replayOptions(undefined), {});
+        assert.deepStrictEqual(replayOptions({
+            console: true,
+            secrets: [{ uri: "github://org_token", value: "token", extra: true }],
+            processor: "other",
+        }), { console: true, secrets: [{ uri: "github://org_token", value: "token" }] });
+    });
+
+    it("should reject mistyped replay options", () => {
+        assert.throws(() => replayOptions([]), /must be a JSON object/);
+        assert.throws(() => replayOptions({ console: "true" }), /'console' must be a boolean/);
+        assert.throws(() => replayOptions({ secrets: [{ uri: "github://org_token" }] }), /'secrets' must be an array/);
+    });
+
+});
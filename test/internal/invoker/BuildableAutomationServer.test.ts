@@ -211,6 +211,65 @@ describe("BuildableAutomationServer", () => {
             });
     });
 
+    it("should access secret resolved asynchronously by chained resolvers", async () => {
+        const failing: SecretResolver = {
+            resolve(sec: string): string {
+                throw new Error(`Failed to resolve '${sec}'`);
+            },
+        };
+        const sr: SecretResolver = {
+            resolve(sec: string): Promise<string> {
+                return Promise.resolve(sec === "github://org_token" ? "valid" : undefined);
+            },
+        };
+        const s = new BuildableAutomationServer(
+            { name: "foobar", version: "1.0.0", workspaceIds: ["bar"], keywords: [], secretResolver: [failing, sr] });
+        s.registerEventHandler(TrustMeIGaveMySecret);
+        const results = await s.onEvent({
+            extensions: {
+                operationName: "TrustMeIGaveMySecret",
+            },
+            data: {
+                Thing: [{
+                    some_thing: 27,
+                }],
+            },
+        }, {
+                workspaceId: "T666",
+                correlationId: "555",
+                messageClient,
+            });
+        assert((results[0] as any).thing === 27);
+    });
+
+    it("should fall back to secret resolver for secrets missing from invocation", async () => {
+        const sr: SecretResolver = {
+            resolve(sec: string): string {
+                assert(sec === "github://org_token");
+                return "valid";
+            },
+        };
+        const s = new BuildableAutomationServer(
+            { name: "foobar", version: "1.0.0", workspaceIds: ["bar"], keywords: [], secretResolver: sr });
+        s.registerEventHandler(TrustMeIGaveMySecret);
+        const results = await s.onEvent({
+            extensions: {
+                operationName: "TrustMeIGaveMySecret",
+            },
+            secrets: [{ uri: "github://user_token", value: "other" }],
+            data: {
+                Thing: [{
+                    some_thing: 27,
+                }],
+            },
+        }, {
+                workspaceId: "T666",
+                correlationId: "555",
+                messageClient,
+            });
+        assert((results[0] as any).thing === 27);
+    });
+
     it("should register one single arg handler using nested parameters and invoke with valid parameter", done => {
         const s = new BuildableAutomationServer({ name: "foobar", version: "1.0.0", workspaceIds: ["bar"], keywords: [] });
 
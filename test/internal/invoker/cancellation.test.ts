@@ -0,0 +1,67 @@
+import "mocha";
+import * as assert from "power-assert";
+import { CancellationSignal } from "../../../lib/HandlerContext";
+import {
+    invocationFinished,
+    invokeWithDeadline,
+    TimeoutError,
+} from "../../../lib/internal/invoker/cancellation";
+
+describe("cancellation", () => {
+
+    describe("invokeWithDeadline", () => {
+
+        it("should return result of invocation within timeout", async () => {
+            const ctx: { invocationId: string, cancellation?: CancellationSignal } = { invocationId: "c1" };
+            const result = await invokeWithDeadline(ctx, 1000, "Command handler 'HelloWorld'",
+                async () => ({ code: 0 }));
+            assert.deepStrictEqual(result, { code: 0 });
+            assert(!ctx.cancellation.cancelled);
+        });
+
+        it("should fail and cancel invocation exceeding timeout", async () => {
+            const ctx: { invocationId: string, cancellation?: CancellationSignal } = { invocationId: "c2" };
+            let reason: string;
+            try {
+                await invokeWithDeadline(ctx, 10, "Command handler 'HelloWorld'", () => {
+                    ctx.cancellation.onCancel(r => reason = r);
+                    return new Promise<void>(() => { /* never finishes */ });
+                });
+                assert.fail("Should have timed out");
+            } catch (e) {
+                assert(e instanceof TimeoutError);
+                assert(e.message === "Command handler 'HelloWorld' timed out after 10ms");
+                assert(ctx.cancellation.cancelled);
+                assert(reason === e.message);
+            }
+        });
+
+        it("should report when a timed out invocation really finished", async () => {
+            const ctx: { invocationId: string, cancellation?: CancellationSignal } = { invocationId: "c4" };
+            let finished = false;
+            try {
+                await invokeWithDeadline(ctx, 10, "Command handler 'HelloWorld'",
+                    () => new Promise<void>(resolve => setTimeout(() => {
+                        finished = true;
+                        resolve();
+                    }, 50)));
+                assert.fail("Should have timed out");
+            } catch (e) {
+                assert(e instanceof TimeoutError);
+                assert(!finished);
+            }
+            await invocationFinished("c4");
+            assert(finished);
+        });
+
+        it("should not time out without timeout", async () => {
+            const ctx: { invocationId: string, cancellation?: CancellationSignal } = { invocationId: "c3" };
+            const result = await invokeWithDeadline(ctx, undefined, "Command handler 'HelloWorld'",
+                () => new Promise<string>(resolve => setTimeout(() => resolve("done"), 20)));
+            assert(result === "done");
+            assert(!ctx.cancellation.cancelled);
+        });
+
+    });
+
+});
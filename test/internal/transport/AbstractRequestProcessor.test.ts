@@ -23,6 +23,7 @@ import {
     EventIncoming,
 } from "../../../lib/internal/transport/RequestProcessor";
 import { AutomationContext } from "../../../lib/internal/util/cls";
+import { AutomationEventListenerSupport } from "../../../lib/server/AutomationEventListener";
 import { BuildableAutomationServer } from "../../../lib/server/BuildableAutomationServer";
 import { GraphClient } from "../../../lib/spi/graph/GraphClient";
 import { MessageClient } from "../../../lib/spi/message/MessageClient";
@@ -295,3 +296,99 @@ describe("the processEvent method", () => {
     });
 
 });
+
+describe("concurrency slots of the request processor", () => {
+
+    class ClientCreatingRequestProcessor extends ConcreteRequestProcessor {
+
+        protected createGraphClient(event: EventIncoming | CommandIncoming, context: AutomationContextAware): GraphClient {
+            return undefined;
+        }
+
+        protected createMessageClient(event: EventIncoming | CommandIncoming, context: AutomationContextAware): MessageClient {
+            return {} as any;
+        }
+    }
+
+    function automationServer(name: string,
+                              handle: () => Promise<HandlerResult> = () => Promise.resolve({ code: 0 })): BuildableAutomationServer {
+        const server = new BuildableAutomationServer({ name: "Fred", version: "8.10.5" });
+        const factory: Factory<HandleCommand> = () => {
+            return {
+                __kind: "command-handler",
+                __intent: "Yo",
+                __name: name,
+                handle,
+            };
+        };
+        server.registerCommandHandler(factory);
+        return server;
+    }
+
+    function commandIncoming(name: string): CommandIncoming {
+        return {
+            parameters: [],
+            mapped_parameters: [],
+            secrets: [],
+            command: name,
+            correlation_id: "abc",
+            team: { id: "TEAM" },
+            source: undefined,
+        };
+    }
+
+    function process(processor: AbstractRequestProcessor, command: CommandIncoming): Promise<HandlerResult> {
+        return new Promise<HandlerResult>(resolve => processor.processCommand(command, result => result.then(resolve)));
+    }
+
+    it("should run the next queued invocation if a listener rejects", async () => {
+        const name = "RejectingListenerCommand";
+        const listener = new class extends AutomationEventListenerSupport {
+            public commandSuccessful(): Promise<void> {
+                return Promise.reject(new Error("Listener failed on purpose"));
+            }
+        }();
+        const processor = new ClientCreatingRequestProcessor(
+            automationServer(name), { concurrency: { [name]: 1 } }, [listener]);
+
+        const results = await Promise.all([
+            process(processor, commandIncoming(name)),
+            process(processor, commandIncoming(name)),
+        ]);
+        assert.deepStrictEqual(results.map(r => r.code), [0, 0]);
+    });
+
+    it("should run the next queued invocation if creating the context fails", async () => {
+        const name = "FailingContextCommand";
+        const processor = new ConcreteRequestProcessor(automationServer(name), { concurrency: { [name]: 1 } });
+
+        const results = await Promise.all([
+            process(processor, commandIncoming(name)),
+            process(processor, commandIncoming(name)),
+        ]);
+        assert.deepStrictEqual(results.map(r => r.code), [1, 1]);
+    });
+
+    it("should hold the slot of a timed out invocation until the handler finished", async () => {
+        const name = "TimingOutCommand";
+        let running = 0;
+        let maxRunning = 0;
+        const handle = async () => {
+            running++;
+            maxRunning = Math.max(maxRunning, running);
+            await new Promise<void>(resolve => setTimeout(resolve, 50));
+            running--;
+            return { code: 0 };
+        };
+        const processor = new ClientCreatingRequestProcessor(automationServer(name, handle),
+            { concurrency: { [name]: 1 }, timeout: { handlers: { [name]: 10 } } });
+
+        const results = await Promise.all([
+            process(processor, commandIncoming(name)),
+            process(processor, commandIncoming(name)),
+        ]);
+        assert.deepStrictEqual(results.map(r => r.code), [1, 1]);
+        assert(maxRunning === 1);
+    });
+
+});
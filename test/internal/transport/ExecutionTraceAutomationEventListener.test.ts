@@ -0,0 +1,107 @@
+import * as cluster from "cluster";
+import "mocha";
+import * as assert from "power-assert";
+import { HandlerContext } from "../../../lib/HandlerContext";
+import { CommandInvocation } from "../../../lib/internal/invoker/Payload";
+import {
+    executionTrace,
+    ExecutionTraceAutomationEventListener,
+    recordWorkerLifecycle,
+} from "../../../lib/internal/transport/ExecutionTraceAutomationEventListener";
+import { CommandIncoming } from "../../../lib/internal/transport/RequestProcessor";
+
+describe("ExecutionTraceAutomationEventListener", () => {
+
+    const command: CommandIncoming = {
+        correlation_id: "trace-c1",
+        command: "HelloWorld",
+        team: { id: "T123" },
+        source: { user_agent: "web" },
+        parameters: [],
+        mapped_parameters: [],
+        secrets: [{ uri: "github://user_token?scopes=repo", value: "supersecret" }],
+    };
+
+    const ci: CommandInvocation = { name: "HelloWorld", args: [] };
+    const ctx = { correlationId: "trace-c1", workspaceId: "T123" } as any as HandlerContext;
+
+    it("should stitch together lifecycle of a successful command", async () => {
+        const listener = new ExecutionTraceAutomationEventListener();
+        listener.commandIncoming(command);
+        listener.commandStarting(ci, ctx);
+        await listener.messageSending("Hello", [], {}, ctx);
+        await listener.messageSent("Hello", [], {}, ctx);
+        await listener.commandSuccessful(ci, ctx, { code: 0 });
+
+        const trace = executionTrace("trace-c1");
+        assert(trace.type === "command");
+        assert(trace.name === "HelloWorld");
+        assert(trace.status === "successful");
+        assert.deepStrictEqual(trace.result, { code: 0 });
+        assert(trace.duration >= 0);
+        assert.deepStrictEqual(trace.lifecycle.map(l => l.name),
+            ["commandIncoming", "commandStarting", "messageSending", "messageSent", "commandSuccessful"]);
+        assert.deepStrictEqual(trace.messages.map(m => m.message), ["Hello"]);
+        assert(trace.payload.secrets[0].value === "s*********t");
+        assert(command.secrets[0].value === "supersecret");
+    });
+
+    it("should record failures", async () => {
+        const listener = new ExecutionTraceAutomationEventListener();
+        listener.commandIncoming({ ...command, correlation_id: "trace-c2" });
+        await listener.commandFailed(ci, { ...ctx, correlationId: "trace-c2" }, new Error("boom"));
+
+        const trace = executionTrace("trace-c2");
+        assert(trace.status === "failed");
+        assert(trace.result.message === "boom");
+    });
+
+    it("should trace each lifecycle callback of cluster invocations once", async () => {
+        const master = new ExecutionTraceAutomationEventListener();
+        const worker = new ExecutionTraceAutomationEventListener();
+        const c3 = { ...ctx, correlationId: "trace-c3" };
+        master.commandIncoming({ ...command, correlation_id: "trace-c3" });
+        master.commandStarting(ci, c3);
+
+        const sent: any[] = [];
+        const isWorker = cluster.isWorker;
+        const send = process.send;
+        try {
+            (cluster as any).isWorker = true;
+            process.send = (message: any) => sent.push(message) > 0;
+            worker.commandIncoming({ ...command, correlation_id: "trace-c3" });
+            worker.commandStarting(ci, c3);
+            await worker.messageSending("Hello", [], {}, c3);
+            await worker.messageSent("Hello", [], {}, c3);
+            await worker.commandSuccessful(ci, c3, { code: 0 });
+        } finally {
+            (cluster as any).isWorker = isWorker;
+            process.send = send;
+        }
+        assert.deepStrictEqual(sent.map(m => [m.type, m.data.name]), [["atomist:trace", "commandStarting"]]);
+        sent.forEach(m => recordWorkerLifecycle(m.data.correlationId, m.data.name, m.data.ts, 1));
+
+        // The master relays the message and receives the result itself
+        await master.messageSending("Hello", [], {}, c3);
+        await master.messageSent("Hello", [], {}, c3);
+        await master.commandSuccessful(ci, c3, { code: 0 });
+
+        const trace = executionTrace("trace-c3");
+        assert.deepStrictEqual(trace.lifecycle.map(l => [l.name, l.worker]), [
+            ["commandIncoming", undefined],
+            ["commandStarting", 1],
+            ["messageSending", undefined],
+            ["messageSent", undefined],
+            ["commandSuccessful", undefined],
+        ]);
+        assert.deepStrictEqual(trace.messages.map(m => m.message), ["Hello"]);
+        assert(trace.status === "successful");
+    });
+
+    it("should ignore unknown correlation ids", async () => {
+        const listener = new ExecutionTraceAutomationEventListener();
+        await listener.commandSuccessful(ci, { ...ctx, correlationId: "unknown" }, { code: 0 });
+        assert(!executionTrace("unknown"));
+    });
+
+});
@@ -0,0 +1,266 @@
+import * as cluster from "cluster";
+import { EventEmitter } from "events";
+import "mocha";
+import * as assert from "power-assert";
+import {
+    AutomationContextAware,
+    HandlerContext,
+} from "../../../../lib/HandlerContext";
+import {
+    ClusterMasterRequestProcessor,
+    drainOptions,
+    workerRecycleReason,
+} from "../../../../lib/internal/transport/cluster/ClusterMasterRequestProcessor";
+import { CommandIncoming } from "../../../../lib/internal/transport/RequestProcessor";
+import { BuildableAutomationServer } from "../../../../lib/server/BuildableAutomationServer";
+
+class FakeWorker extends EventEmitter {
+
+    public sent: any[] = [];
+    public killed: boolean = false;
+
+    constructor(public readonly id: number) {
+        super();
+    }
+
+    public isConnected(): boolean {
+        return !this.killed;
+    }
+
+    public send(message: any): boolean {
+        this.sent.push(message);
+        return true;
+    }
+
+    public kill(): void {
+        this.killed = true;
+    }
+}
+
+describe("ClusterMasterRequestProcessor", () => {
+
+    describe("drainOptions", () => {
+
+        it("should parse worker and deadline", () => {
+            assert.deepStrictEqual(drainOptions({ worker: "2", deadline: "30000" }), { worker: 2, deadline: 30000 });
+        });
+
+        it("should accept missing parameters", () => {
+            assert.deepStrictEqual(drainOptions({}), {});
+        });
+
+        it("should reject values that are not positive integers", () => {
+            for (const query of [{ deadline: "abc" }, { worker: "abc" }, { worker: "0" }, { deadline: "-1" },
+                { deadline: "1.5" }, { deadline: "" }, { worker: ["1", "2"] }]) {
+                assert.throws(() => drainOptions(query), /must be a positive integer/);
+            }
+        });
+    });
+
+    describe("workerRecycleReason", () => {
+
+        const mb = 1024 * 1024;
+
+        it("should not recycle without thresholds", () => {
+            assert(workerRecycleReason({ rss: 4096 * mb, invocations: 10000 }, undefined) === undefined);
+            assert(workerRecycleReason({ rss: 4096 * mb, invocations: 10000 }, {}) === undefined);
+        });
+
+        it("should recycle when the RSS in megabytes exceeds the threshold", () => {
+            assert(workerRecycleReason({ rss: 512 * mb, invocations: 0 }, { maxRss: 512 }) === undefined);
+            assert(workerRecycleReason({ rss: 512 * mb + 1, invocations: 0 }, { maxRss: 512 })
+                === "RSS of 512.00mb exceeds 512mb");
+        });
+
+        it("should recycle when the invocations reach the threshold", () => {
+            assert(workerRecycleReason({ rss: 0, invocations: 99 }, { maxInvocations: 100 }) === undefined);
+            assert(workerRecycleReason({ rss: 0, invocations: 100 }, { maxInvocations: 100 })
+                === "100 invocations reached limit of 100");
+        });
+
+        it("should report the RSS before the invocations", () => {
+            assert(workerRecycleReason({ rss: 1024 * mb, invocations: 100 }, { maxRss: 512, maxInvocations: 100 })
+                === "RSS of 1024.00mb exceeds 512mb");
+        });
+    });
+
+    describe("drain", () => {
+
+        const fork = cluster.fork;
+        const workers = cluster.workers;
+        const clusterEvents = ["disconnect", "online", "exit"];
+        let clusterListeners: { [event: string]: Array<(...args: any[]) => void> };
+        let sigusr2Listeners: Array<(...args: any[]) => void>;
+        let forked: FakeWorker[];
+
+        beforeEach(() => {
+            clusterListeners = {};
+            clusterEvents.forEach(e => clusterListeners[e] = cluster.listeners(e) as any);
+            sigusr2Listeners = process.listeners("SIGUSR2" as any) as any;
+            forked = [];
+            (cluster as any).workers = {};
+            (cluster as any).fork = () => {
+                const worker = new FakeWorker(forked.length + 1);
+                forked.push(worker);
+                cluster.workers[worker.id] = worker as any;
+                return worker;
+            };
+        });
+
+        afterEach(() => {
+            (cluster as any).fork = fork;
+            (cluster as any).workers = workers;
+            clusterEvents.forEach(e => cluster.listeners(e)
+                .filter(l => !clusterListeners[e].includes(l as any))
+                .forEach(l => cluster.removeListener(e, l as any)));
+            process.listeners("SIGUSR2" as any)
+                .filter(l => !sigusr2Listeners.includes(l as any))
+                .forEach(l => process.removeListener("SIGUSR2" as any, l as any));
+        });
+
+        function runProcessor(recycle?: { maxRss?: number, maxInvocations?: number }): ClusterMasterRequestProcessor {
+            const automations = new BuildableAutomationServer({ name: "foo", version: "1.0.0", workspaceIds: ["T1"] });
+            const configuration: any = {
+                statsd: { enabled: false },
+                cluster: { recycle },
+                ws: { lifecycle: { send: () => undefined } },
+            };
+            const processor = new ClusterMasterRequestProcessor(automations, configuration, [], 2);
+            // Workers never report online in these tests
+            processor.run().catch(() => undefined);
+            return processor;
+        }
+
+        function dispatchCommand(processor: ClusterMasterRequestProcessor, invocationId: string): FakeWorker {
+            const command = {
+                command: "HelloWorld",
+                correlation_id: invocationId,
+                team: { id: "T1" },
+            } as any as CommandIncoming;
+            const ctx = {
+                workspaceId: "T1",
+                correlationId: invocationId,
+                invocationId,
+                context: { invocationId, correlationId: invocationId, workspaceId: "T1" },
+            } as any as HandlerContext & AutomationContextAware;
+            (processor as any).invokeCommand({ name: "HelloWorld", args: [] }, ctx, command, () => undefined);
+            return forked.find(w => w.sent.some(m => m.context.invocationId === invocationId));
+        }
+
+        function completeCommand(worker: FakeWorker, invocationId: string): void {
+            worker.emit("message", {
+                type: "atomist:command_success",
+                context: { invocationId, correlationId: invocationId, workspaceId: "T1" },
+                event: { name: "HelloWorld", args: [] },
+                data: { code: 0 },
+            });
+        }
+
+        function exit(worker: FakeWorker, code: number, signal?: string): void {
+            delete cluster.workers[worker.id];
+            cluster.emit("exit", worker, code, signal);
+        }
+
+        function sleep(ms: number): Promise<void> {
+            return new Promise<void>(resolve => setTimeout(resolve, ms));
+        }
+
+        it("should fork a replacement and stop assigning invocations to the drained worker", () => {
+            const processor = runProcessor();
+            assert(forked.length === 2);
+
+            assert.deepStrictEqual(processor.drain(1), [1]);
+            assert(forked.length === 3);
+            assert.deepStrictEqual(processor.drain(1), []);
+
+            for (let i = 0; i < 8; i++) {
+                assert(dispatchCommand(processor, `i${i}`) !== forked[0]);
+            }
+            assert(forked[0].sent.length === 0);
+        });
+
+        it("should drain all workers", () => {
+            const processor = runProcessor();
+            assert.deepStrictEqual(processor.drain(), [1, 2]);
+            assert(forked.length === 4);
+        });
+
+        it("should know its workers", () => {
+            const processor = runProcessor();
+            assert(processor.hasWorker(2));
+            assert(!processor.hasWorker(3));
+        });
+
+        it("should wait for in-flight invocations before recycling the worker", async () => {
+            const processor = runProcessor();
+            const worker = dispatchCommand(processor, "i1");
+            processor.drain(worker.id, 10000);
+
+            await sleep(300);
+            assert(!worker.killed);
+
+            completeCommand(worker, "i1");
+            await sleep(300);
+            assert(worker.killed);
+        });
+
+        it("should recycle the worker once the deadline passed", async () => {
+            const processor = runProcessor();
+            const worker = dispatchCommand(processor, "i1");
+            processor.drain(worker.id, 100);
+
+            await sleep(50);
+            assert(!worker.killed);
+            await sleep(300);
+            assert(worker.killed);
+        });
+
+        it("should not fork a second replacement when the drained worker exits", async () => {
+            const processor = runProcessor();
+            processor.drain(1);
+            await sleep(10);
+            assert(forked[0].killed);
+            assert(forked.length === 3);
+
+            exit(forked[0], undefined, "SIGTERM");
+            assert(forked.length === 3);
+        });
+
+        it("should replace workers that crashed", () => {
+            runProcessor();
+            exit(forked[0], 1);
+            assert(forked.length === 3);
+        });
+
+        it("should recycle a worker exceeding the RSS threshold once", () => {
+            const processor = runProcessor({ maxRss: 100 });
+            forked[0].emit("message", { type: "atomist:memory", data: { rss: 50 * 1024 * 1024 } });
+            assert(forked.length === 2);
+
+            const events: string[] = [];
+            const configuration: any = (processor as any).configuration;
+            configuration.statsd = {
+                enabled: true,
+                __instance: { event: (title: string, text: string) => events.push(text) },
+            };
+            forked[0].emit("message", { type: "atomist:memory", data: { rss: 101 * 1024 * 1024 } });
+            assert(forked.length === 3);
+            assert.deepStrictEqual(events, ["Recycling worker: RSS of 101.00mb exceeds 100mb"]);
+
+            // Skip workers already draining
+            forked[0].emit("message", { type: "atomist:memory", data: { rss: 120 * 1024 * 1024 } });
+            assert(forked.length === 3);
+            assert(events.length === 1);
+        });
+
+        it("should recycle a worker reaching the invocation threshold", () => {
+            const processor = runProcessor({ maxInvocations: 2 });
+            // Whichever way the invocations get assigned, one worker reaches the threshold
+            ["i1", "i2", "i3"].forEach(id => dispatchCommand(processor, id));
+            assert(forked.length === 3);
+            const recycled = forked.find(w => w.sent.length === 2);
+            // The worker is already draining
+            assert.deepStrictEqual(processor.drain(recycled.id), []);
+        });
+    });
+});
@@ -0,0 +1,84 @@
+import "mocha";
+import * as assert from "power-assert";
+import { CommandHandler } from "../../../lib/decorators";
+import { metadataFromInstance } from "../../../lib/internal/metadata/metadataReading";
+import {
+    concurrencyLimit,
+    HandlerConcurrency,
+} from "../../../lib/internal/transport/concurrency";
+import { CommandIncoming } from "../../../lib/internal/transport/RequestProcessor";
+import { CommandHandlerMetadata } from "../../../lib/metadata/automationMetadata";
+
+describe("concurrency", () => {
+
+    describe("HandlerConcurrency", () => {
+
+        it("should queue invocations above the limit in order", async () => {
+            const concurrency = new HandlerConcurrency();
+            const started: number[] = [];
+            [1, 2, 3, 4].forEach(i => concurrency.run("HelloWorld", 2, () => started.push(i)));
+            concurrency.run("Other", 2, () => started.push(5));
+
+            assert.deepStrictEqual(started, [1, 2, 5]);
+            assert(concurrency.pending() === 2);
+            assert(concurrency.pending("HelloWorld") === 2);
+
+            concurrency.release("HelloWorld");
+            await new Promise<void>(setImmediate);
+            assert.deepStrictEqual(started, [1, 2, 5, 3]);
+
+            concurrency.release("HelloWorld");
+            concurrency.release("HelloWorld");
+            await new Promise<void>(setImmediate);
+            assert.deepStrictEqual(started, [1, 2, 5, 3, 4]);
+            assert(concurrency.pending() === 0);
+        });
+
+        it("should not limit handlers without limit", () => {
+            const concurrency = new HandlerConcurrency();
+            let started = 0;
+            [1, 2, 3].forEach(() => concurrency.run("HelloWorld", undefined, () => started++));
+            assert(started === 3);
+            assert(concurrency.pending() === 0);
+        });
+
+    });
+
+    describe("concurrencyLimit", () => {
+
+        const command = { command: "HelloWorld" } as any as CommandIncoming;
+        const automations = (commands: CommandHandlerMetadata[]) => ({ automations: { commands, events: [] } }) as any;
+
+        it("should use the limit declared on the handler", () => {
+            const limit = concurrencyLimit(command,
+                automations([{ name: "HelloWorld", description: "", concurrency: 2 }]), {});
+            assert(limit === 2);
+        });
+
+        it("should use the limit declared with the command handler decorator", () => {
+            @CommandHandler("Say hello", { concurrency: 2 }, "hello", "hi")
+            class HelloWorld {
+                public handle(): Promise<any> {
+                    return Promise.resolve();
+                }
+            }
+            const metadata = metadataFromInstance(new HelloWorld()) as CommandHandlerMetadata;
+            assert.deepStrictEqual(metadata.intent, ["hello", "hi"]);
+            assert(concurrencyLimit(command, automations([metadata]), {}) === 2);
+        });
+
+        it("should prefer the configured limit", () => {
+            const limit = concurrencyLimit(command,
+                automations([{ name: "HelloWorld", description: "", concurrency: 2 }]),
+                { concurrency: { HelloWorld: 1 } });
+            assert(limit === 1);
+        });
+
+        it("should return undefined if there is no limit", () => {
+            const limit = concurrencyLimit(command, automations([{ name: "HelloWorld", description: "" }]), {});
+            assert(limit === undefined);
+        });
+
+    });
+
+});
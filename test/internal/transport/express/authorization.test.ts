@@ -0,0 +1,92 @@
+import "mocha";
+import * as assert from "power-assert";
+import {
+    accessRule,
+    authorizingCommand,
+    isAuthorized,
+    principalOf,
+} from "../../../../lib/internal/transport/express/authorization";
+import { CommandHandlerMetadata } from "../../../../lib/metadata/automationMetadata";
+
+describe("authorization", () => {
+
+    const automations = (commands: CommandHandlerMetadata[]) => ({ automations: { commands, events: [] } }) as any;
+
+    describe("principalOf", () => {
+
+        it("should map users of authentication strategies", () => {
+            assert.deepStrictEqual(principalOf({ user: "admin" }), { name: "admin", roles: [] });
+            assert.deepStrictEqual(principalOf({ user: "1234", token: "1234" }), { roles: [] });
+            assert.deepStrictEqual(principalOf({ token: "1234", user: { login: "cd" } }),
+                { name: "cd", roles: [], github: { login: "cd", token: "1234" } });
+            assert.deepStrictEqual(principalOf({ token: "1234", user: { sub: "cd" }, permissions: {}, roles: ["ops"] }),
+                { name: "cd", roles: ["ops"] });
+            assert.deepStrictEqual(principalOf(undefined), { roles: [] });
+        });
+
+    });
+
+    describe("accessRule", () => {
+
+        it("should prefer the configured rule", () => {
+            const rule = accessRule("HelloWorld",
+                automations([{ name: "HelloWorld", description: "", access: { users: ["cd"] } }]),
+                { http: { auth: { access: { HelloWorld: { roles: ["ops"] } } } } } as any);
+            assert.deepStrictEqual(rule, { roles: ["ops"] });
+        });
+
+        it("should use the rule declared on the handler", () => {
+            const rule = accessRule("HelloWorld",
+                automations([{ name: "HelloWorld", description: "", access: { users: ["cd"] } }]), {});
+            assert.deepStrictEqual(rule, { users: ["cd"] });
+        });
+
+    });
+
+    describe("isAuthorized", () => {
+
+        it("should authorize matching users and roles", async () => {
+            assert(await isAuthorized({ name: "cd", roles: [] }, { users: ["cd"] }));
+            assert(await isAuthorized({ name: "cd", roles: ["ops"] }, { users: ["jrday"], roles: ["ops"] }));
+            assert(!await isAuthorized({ name: "cd", roles: ["dev"] }, { users: ["jrday"], roles: ["ops"] }));
+            assert(!await isAuthorized({ roles: [] }, {}));
+        });
+
+    });
+
+    describe("authorizingCommand", () => {
+
+        const middleware = authorizingCommand(
+            automations([{ name: "HelloWorld", description: "", access: { users: ["cd"] } }]), {});
+
+        const invoke = (user: any, command: string) => new Promise<{ status?: number, body?: any }>(resolve => {
+            const res: any = {
+                status: (status: number) => ({ json: (body: any) => resolve({ status, body }) }),
+            };
+            middleware({ user, body: { command }, ip: "127.0.0.1", path: "/command" } as any, res, () => resolve({}));
+        });
+
+        it("should pass authorized invocation", async () => {
+            const result = await invoke({ user: "cd" }, "HelloWorld");
+            assert(result.status === undefined);
+        });
+
+        it("should pass invocation of handler without rule", async () => {
+            const result = await invoke({ user: "jrday" }, "Other");
+            assert(result.status === undefined);
+        });
+
+        it("should reject unauthorized invocation with 403", async () => {
+            const result = await invoke({ user: "jrday" }, "HelloWorld");
+            assert(result.status === 403);
+            assert.deepStrictEqual(result.body, {
+                code: 403,
+                message: "Access to command handler 'HelloWorld' denied",
+                command: "HelloWorld",
+                principal: "jrday",
+            });
+        });
+
+    });
+
+});
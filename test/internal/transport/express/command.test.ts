@@ -0,0 +1,116 @@
+import "mocha";
+import * as assert from "power-assert";
+import {
+    toCommandIncoming,
+    validateCommandRequest,
+} from "../../../../lib/internal/transport/express/command";
+import { CommandHandlerMetadata } from "../../../../lib/metadata/automationMetadata";
+
+describe("command", () => {
+
+    const helloWorld: CommandHandlerMetadata = {
+        name: "HelloWorld",
+        description: "Sends a hello back to the client",
+        parameters: [
+            { name: "name", required: true, pattern: "^[a-z]+$", min_length: 2, max_length: 10 },
+            { name: "count", required: false, type: "number" },
+            { name: "color", required: false, type: { kind: "single", options: [{ value: "red" }, { value: "blue" }] } },
+            { name: "labels", required: false, type: { kind: "multiple", options: [{ value: "a" }, { value: "b" }] } },
+        ],
+        mapped_parameters: [{ name: "owner", uri: "atomist://github/repository/owner", required: true }],
+        secrets: [{ name: "token", uri: "github://user_token?scopes=repo" }],
+    };
+    const configuration = { workspaceIds: ["T1"] };
+
+    describe("validateCommandRequest", () => {
+
+        it("should accept valid request", () => {
+            const errors = validateCommandRequest(helloWorld, {
+                parameters: { name: "cd", count: 2, color: "red", labels: ["a", "b"] },
+                mapped_parameters: { owner: "atomist" },
+            }, configuration);
+            assert.deepStrictEqual(errors, []);
+        });
+
+        it("should report field errors", () => {
+            const errors = validateCommandRequest(helloWorld, {
+                parameters: { count: "many", color: "green", labels: ["a", "c"] },
+            }, configuration);
+            assert.deepStrictEqual(errors, [
+                { field: "parameters.name", message: "Required but missing" },
+                { field: "parameters.count", message: "Must be a number" },
+                { field: "parameters.color", message: "Must be one of 'red', 'blue'" },
+                { field: "parameters.labels[1]", message: "Must be one of 'a', 'b'" },
+                { field: "mapped_parameters", message: "Required but missing" },
+            ]);
+        });
+
+        it("should validate like the published request schema", () => {
+            const field = (parameters: any) =>
+                validateCommandRequest(helloWorld, { parameters, mapped_parameters: { owner: "atomist" } },
+                    configuration);
+            assert.deepStrictEqual(field({ name: "cd", count: "2" }),
+                [{ field: "parameters.count", message: "Must be a number" }]);
+            assert.deepStrictEqual(field({ name: "cd", labels: "a" }),
+                [{ field: "parameters.labels", message: "Must be an array" }]);
+        });
+
+        it("should reject unknown parameters", () => {
+            const errors = validateCommandRequest(helloWorld, {
+                parameters: { nmae: "x" },
+                mapped_parameters: { owner: "atomist", repo: "client" },
+            }, configuration);
+            assert.deepStrictEqual(errors, [
+                { field: "parameters.nmae", message: "Unknown parameter" },
+                { field: "parameters.name", message: "Required but missing" },
+                { field: "mapped_parameters.repo", message: "Unknown parameter" },
+            ]);
+        });
+
+        it("should validate pattern and length", () => {
+            const field = (name: string) =>
+                validateCommandRequest(helloWorld, { parameters: { name }, mapped_parameters: { owner: "atomist" } },
+                    configuration);
+            assert.deepStrictEqual(field("c"), [{ field: "parameters.name", message: "Must be at least 2 characters long" }]);
+            assert.deepStrictEqual(field("abcdefghijk"),
+                [{ field: "parameters.name", message: "Must be at most 10 characters long" }]);
+            assert.deepStrictEqual(field("CD"), [{ field: "parameters.name", message: "Must match pattern '^[a-z]+$'" }]);
+        });
+
+        it("should require team without single configured workspace", () => {
+            const errors = validateCommandRequest(helloWorld,
+                { parameters: { name: "cd" }, mapped_parameters: { owner: "atomist" } }, { workspaceIds: [] });
+            assert.deepStrictEqual(errors, [{ field: "team.id", message: "Required but missing" }]);
+        });
+
+        it("should reject non-object body", () => {
+            const errors = validateCommandRequest(helloWorld, [] as any, configuration);
+            assert.deepStrictEqual(errors, [{ field: "", message: "Request body must be a JSON object" }]);
+        });
+
+    });
+
+    describe("toCommandIncoming", () => {
+
+        it("should translate request into incoming command", () => {
+            const command = toCommandIncoming(helloWorld, {
+                parameters: { name: "cd", count: 2, labels: ["a"] },
+                mapped_parameters: { owner: "atomist" },
+                secrets: { "github://user_token?scopes=repo": "123" },
+                correlation_id: "c1",
+            }, configuration);
+            assert.deepStrictEqual(command, {
+                api_version: "1",
+                correlation_id: "c1",
+                command: "HelloWorld",
+                team: { id: "T1", name: undefined },
+                source: undefined,
+                parameters: [{ name: "name", value: "cd" }, { name: "count", value: "2" }, { name: "labels", value: ["a"] }],
+                mapped_parameters: [{ name: "owner", value: "atomist" }],
+                secrets: [{ uri: "github://user_token?scopes=repo", value: "123" }],
+            });
+        });
+
+    });
+
+});
@@ -0,0 +1,107 @@
+import * as crypto from "crypto";
+import * as fs from "fs-extra";
+import * as jwt from "jsonwebtoken";
+import "mocha";
+import * as assert from "power-assert";
+import * as tmp from "tmp-promise";
+import {
+    JwksKeys,
+    jwtPermissions,
+    verifyJwt,
+} from "../../../../lib/internal/transport/express/jwt";
+
+describe("jwt", () => {
+
+    const pair = (crypto as any).generateKeyPairSync("rsa", { modulusLength: 2048 });
+    const privateKey = pair.privateKey.export({ type: "pkcs8", format: "pem" });
+    const jwk = { ...pair.publicKey.export({ format: "jwk" }), kid: "k1", use: "sig" };
+    const options = { jwks: { file: "" }, issuer: "https://issuer.atomist.com", audience: "automation-client" };
+
+    let keys: JwksKeys;
+
+    before(() => {
+        const jwksFile = tmp.fileSync();
+        fs.writeJsonSync(jwksFile.name, { keys: [jwk] });
+        options.jwks.file = jwksFile.name;
+        keys = new JwksKeys(options.jwks);
+    });
+
+    const sign = (claims: object, signOptions: jwt.SignOptions = {}) => jwt.sign(claims, privateKey, {
+        algorithm: "RS256",
+        keyid: "k1",
+        issuer: "https://issuer.atomist.com",
+        audience: "automation-client",
+        expiresIn: 60,
+        ...signOptions,
+    });
+
+    describe("verifyJwt", () => {
+
+        it("should verify token signed with key from JWKS file", async () => {
+            const claims = await verifyJwt(sign({ sub: "atomist", scope: "invoke" }), keys, options);
+            assert(claims.sub === "atomist");
+        });
+
+        it("should reject token with wrong audience", async () => {
+            try {
+                await verifyJwt(sign({ sub: "atomist" }, { audience: "other" }), keys, options);
+                assert.fail("Should have been rejected");
+            } catch (e) {
+                assert(e.message.includes("audience"));
+            }
+        });
+
+        it("should reject token with unknown key id", async () => {
+            try {
+                await verifyJwt(sign({ sub: "atomist" }, { keyid: "k2" }), keys, options);
+                assert.fail("Should have been rejected");
+            } catch (e) {
+                assert(e.message === "No signing key with id 'k2'");
+            }
+        });
+
+        it("should reject expired token", async () => {
+            try {
+                await verifyJwt(sign({ sub: "atomist" }, { expiresIn: -10 }), keys, options);
+                assert.fail("Should have been rejected");
+            } catch (e) {
+                assert(e.message === "jwt expired");
+            }
+        });
+
+    });
+
+    describe("JwksKeys", () => {
+
+        it("should only use RSA and EC keys", async () => {
+            const jwksFile = tmp.fileSync();
+            fs.writeJsonSync(jwksFile.name, { keys: [{ kty: "oct", k: "c2VjcmV0", kid: "k0" }, jwk] });
+            const mixed = new JwksKeys({ file: jwksFile.name });
+            assert((await mixed.key()).startsWith("-----BEGIN PUBLIC KEY-----"));
+            try {
+                await mixed.key("k0");
+                assert.fail("Should have been rejected");
+            } catch (e) {
+                assert(e.message === "No signing key with id 'k0'");
+            }
+        });
+
+    });
+
+    describe("jwtPermissions", () => {
+
+        it("should map default scopes to permissions", () => {
+            assert.deepStrictEqual(jwtPermissions({ scope: "openid invoke" }, options), { admin: false, invoke: true });
+            assert.deepStrictEqual(jwtPermissions({ scope: "admin" }, options), { admin: true, invoke: true });
+            assert.deepStrictEqual(jwtPermissions({}, options), { admin: false, invoke: false });
+        });
+
+        it("should map configured claim to permissions", () => {
+            const permissions = jwtPermissions({ groups: ["ops", "dev"] },
+                { ...options, permissions: { claim: "groups", admin: ["ops"] } });
+            assert.deepStrictEqual(permissions, { admin: true, invoke: true });
+        });
+
+    });
+
+});
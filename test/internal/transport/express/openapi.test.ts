@@ -0,0 +1,84 @@
+import "mocha";
+import * as assert from "power-assert";
+import {
+    commandRequestSchema,
+    openApiDocument,
+    parameterSchema,
+} from "../../../../lib/internal/transport/express/openapi";
+import { CommandHandlerMetadata } from "../../../../lib/metadata/automationMetadata";
+
+describe("openapi", () => {
+
+    const helloWorld: CommandHandlerMetadata = {
+        name: "HelloWorld",
+        description: "Sends a hello back to the client",
+        tags: [{ name: "hello", description: "hello" }],
+        parameters: [
+            { name: "name", required: true, pattern: "^.*$", min_length: 1, max_length: 100 },
+            { name: "count", required: true, type: "number", default_value: "1" },
+            { name: "color", required: false, type: { kind: "single", options: [{ value: "red" }, { value: "blue" }] } },
+            { name: "labels", required: false, type: "freeChoices" },
+        ],
+        mapped_parameters: [{ name: "owner", uri: "atomist://github/repository/owner", required: true }],
+        secrets: [{ name: "token", uri: "github://user_token?scopes=repo" }],
+    };
+
+    describe("parameterSchema", () => {
+
+        it("should map string parameter", () => {
+            assert.deepStrictEqual(parameterSchema(helloWorld.parameters[0]),
+                { type: "string", pattern: "^.*$", minLength: 1, maxLength: 100 });
+        });
+
+        it("should map number parameter with default", () => {
+            assert.deepStrictEqual(parameterSchema(helloWorld.parameters[1]), { type: "number", default: 1 });
+        });
+
+        it("should map options to enum", () => {
+            assert.deepStrictEqual(parameterSchema(helloWorld.parameters[2]), { type: "string", enum: ["red", "blue"] });
+        });
+
+        it("should map free choices to array", () => {
+            assert.deepStrictEqual(parameterSchema(helloWorld.parameters[3]), { type: "array", items: { type: "string" } });
+        });
+
+    });
+
+    describe("commandRequestSchema", () => {
+
+        it("should require parameters without default", () => {
+            const schema = commandRequestSchema(helloWorld);
+            assert.deepStrictEqual(schema.properties.parameters.required, ["name"]);
+            assert.deepStrictEqual(schema.properties.mapped_parameters.required, ["owner"]);
+            assert.deepStrictEqual(Object.keys(schema.properties.secrets.properties), ["github://user_token?scopes=repo"]);
+            assert.deepStrictEqual(schema.required, ["parameters", "mapped_parameters"]);
+        });
+
+        it("should not allow unknown parameters", () => {
+            const schema = commandRequestSchema(helloWorld);
+            assert(schema.properties.parameters.additionalProperties === false);
+            assert(schema.properties.mapped_parameters.additionalProperties === false);
+            assert(schema.properties.secrets.additionalProperties === undefined);
+        });
+
+    });
+
+    describe("openApiDocument", () => {
+
+        it("should describe an endpoint per command handler", () => {
+            const automations = { name: "test", version: "0.1.0", commands: [helloWorld], events: [], ingesters: [] } as any;
+            const doc = openApiDocument(automations, { http: { auth: { basic: { enabled: true } } } } as any);
+            assert(doc.openapi === "3.0.0");
+            assert(doc.info.title === "test");
+            const operation = doc.paths["/command/HelloWorld"].post;
+            assert(operation.operationId === "HelloWorld");
+            assert.deepStrictEqual(operation.tags, ["hello"]);
+            assert(operation.requestBody.content["application/json"].schema.$ref === "#/components/schemas/HelloWorldRequest");
+            assert(!!doc.components.schemas.HelloWorldRequest);
+            assert.deepStrictEqual(doc.components.securitySchemes, { basic: { type: "http", scheme: "basic" } });
+            assert.deepStrictEqual(doc.security, [{ basic: [] }]);
+        });
+
+    });
+
+});
@@ -0,0 +1,121 @@
+import "mocha";
+import * as assert from "power-assert";
+import {
+    RateLimiter,
+    rateLimiting,
+    registeredHandlerName,
+    TokenBucket,
+    UnregisteredHandler,
+} from "../../../../lib/internal/transport/express/rateLimit";
+
+describe("rateLimit", () => {
+
+    describe("TokenBucket", () => {
+
+        it("should allow bursts and refill over time", () => {
+            const bucket = new TokenBucket({ rate: 1, burst: 2 }, 0);
+            assert(bucket.wait(0) === 0);
+            bucket.take(0);
+            bucket.take(0);
+            assert(bucket.wait(0) === 1000);
+            assert(bucket.wait(500) === 500);
+            assert(bucket.wait(1000) === 0);
+            assert(!bucket.full(1000));
+            assert(bucket.full(2000));
+        });
+
+    });
+
+    describe("RateLimiter", () => {
+
+        it("should limit per client", () => {
+            const limiter = new RateLimiter({ enabled: true, client: { rate: 1 } });
+            assert(limiter.acquire("cd", "HelloWorld", 0) === undefined);
+            assert.deepStrictEqual(limiter.acquire("cd", "HelloWorld", 0), { scope: "client", wait: 1000 });
+            assert(limiter.acquire("jrday", "HelloWorld", 0) === undefined);
+        });
+
+        it("should limit per handler and prefer handler specific limits", () => {
+            const limiter = new RateLimiter({
+                enabled: true,
+                handler: { rate: 1 },
+                handlers: { HelloWorld: { rate: 2 } },
+            });
+            assert(limiter.acquire("cd", "HelloWorld", 0) === undefined);
+            assert(limiter.acquire("cd", "HelloWorld", 0) === undefined);
+            assert.deepStrictEqual(limiter.acquire("cd", "HelloWorld", 0), { scope: "handler", wait: 500 });
+            assert(limiter.acquire("cd", "Other", 0) === undefined);
+            assert(limiter.acquire("cd", "Other", 0).scope === "handler");
+        });
+
+        it("should not take tokens from other buckets when limited", () => {
+            const limiter = new RateLimiter({ enabled: true, global: { rate: 2 }, client: { rate: 1 } });
+            assert(limiter.acquire("cd", undefined, 0) === undefined);
+            assert(limiter.acquire("cd", undefined, 0).scope === "client");
+            assert(limiter.acquire("jrday", undefined, 0) === undefined);
+            assert(limiter.acquire("atomist", undefined, 0).scope === "global");
+        });
+
+        it("should not limit if disabled", () => {
+            const limiter = new RateLimiter({ global: { rate: 1 } });
+            assert(limiter.acquire("cd", undefined, 0) === undefined);
+            assert(limiter.acquire("cd", undefined, 0) === undefined);
+        });
+
+        it("should apply updated limits", () => {
+            const limiter = new RateLimiter({ enabled: true, client: { rate: 1 } });
+            assert(limiter.acquire("cd", undefined, 0) === undefined);
+            assert(limiter.acquire("cd", undefined, 0).scope === "client");
+            limiter.update({ enabled: true, client: { rate: 1, burst: 2 } });
+            assert(limiter.acquire("cd", undefined, 0) === undefined);
+            assert(limiter.acquire("cd", undefined, 0) === undefined);
+            assert(limiter.acquire("cd", undefined, 0).scope === "client");
+        });
+
+        it("should drop least recently used buckets", () => {
+            const limiter = new RateLimiter({ enabled: true, client: { rate: 1 } }, 2);
+            assert(limiter.acquire("cd", undefined, 0) === undefined);
+            assert(limiter.acquire("jrday", undefined, 0) === undefined);
+            assert(limiter.acquire("cd", undefined, 0).scope === "client");
+            assert(limiter.acquire("atomist", undefined, 0) === undefined);
+            assert(limiter.acquire("cd", undefined, 0).scope === "client");
+            assert(limiter.acquire("jrday", undefined, 0) === undefined);
+        });
+
+    });
+
+    describe("registeredHandlerName", () => {
+
+        it("should map unregistered handlers to a shared name", () => {
+            const handlerName = registeredHandlerName(r => r.body.command, name => name === "HelloWorld");
+            assert(handlerName({ body: { command: "HelloWorld" } } as any) === "HelloWorld");
+            assert(handlerName({ body: { command: "Random1" } } as any) === UnregisteredHandler);
+            assert(handlerName({ body: { command: "Random2" } } as any) === UnregisteredHandler);
+            assert(handlerName({ body: {} } as any) === undefined);
+        });
+
+    });
+
+    describe("rateLimiting", () => {
+
+        it("should respond with 429 and Retry-After", () => {
+            const middleware = rateLimiting(new RateLimiter({ enabled: true, global: { rate: 0.5 } }),
+                r => r.body.command);
+            const req: any = { body: { command: "HelloWorld" }, ip: "127.0.0.1", path: "/command" };
+            let passed = 0;
+            const res: any = {
+                headers: {},
+                setHeader: (name: string, value: string) => res.headers[name] = value,
+                status: (code: number) => ({ json: (body: any) => Object.assign(res, { code, body }) }),
+            };
+            middleware(req, res, () => passed++);
+            middleware(req, res, () => passed++);
+            assert(passed === 1);
+            assert(res.code === 429);
+            assert(res.headers["Retry-After"] === "2");
+            assert(res.body.scope === "global");
+        });
+
+    });
+
+});
@@ -0,0 +1,79 @@
+import * as crypto from "crypto";
+import "mocha";
+import * as assert from "power-assert";
+import {
+    hasSignature,
+    verifySignature,
+} from "../../../../lib/internal/transport/express/signature";
+
+describe("signature", () => {
+
+    const body = Buffer.from(JSON.stringify({ command: "HelloWorld" }));
+    const sign = (payload: string | Buffer, secret: string = "secret") =>
+        crypto.createHmac("sha256", secret).update(payload).digest("hex");
+
+    describe("github", () => {
+
+        const options = { enabled: true, github: { secret: "secret" } };
+
+        it("should verify valid signature", () => {
+            const verification = verifySignature({ "x-hub-signature-256": `sha256=${sign(body)}` }, body, options);
+            assert(verification.verified);
+        });
+
+        it("should reject signature with wrong secret", () => {
+            const verification = verifySignature(
+                { "x-hub-signature-256": `sha256=${sign(body, "other")}` }, body, options);
+            assert.deepStrictEqual(verification, { verified: false, reason: "Invalid x-hub-signature-256 signature" });
+        });
+
+        it("should reject tampered body", () => {
+            const verification = verifySignature(
+                { "x-hub-signature-256": `sha256=${sign(body)}` }, Buffer.from("{}"), options);
+            assert(!verification.verified);
+        });
+
+        it("should detect missing signature", () => {
+            assert(!hasSignature({}, options));
+            assert.deepStrictEqual(verifySignature({}, body, options), { verified: false, reason: "Missing signature" });
+        });
+
+    });
+
+    describe("hmac", () => {
+
+        const options = { enabled: true, hmac: { secret: "secret" } };
+        const now = 1550000000000;
+        const timestamp = `${now / 1000}`;
+
+        it("should verify valid signature over timestamp and body", () => {
+            const verification = verifySignature({
+                "x-signature": sign(`${timestamp}.${body}`),
+                "x-signature-timestamp": timestamp,
+            }, body, options, now);
+            assert(verification.verified);
+        });
+
+        it("should reject signature outside of timestamp window", () => {
+            const verification = verifySignature({
+                "x-signature": sign(`${timestamp}.${body}`),
+                "x-signature-timestamp": timestamp,
+            }, body, options, now + 301 * 1000);
+            assert.deepStrictEqual(verification,
+                { verified: false, reason: "Signature timestamp outside of tolerance of 300s" });
+        });
+
+        it("should reject signature without timestamp", () => {
+            const verification = verifySignature({ "x-signature": sign(body) }, body, options, now);
+            assert(!verification.verified);
+        });
+
+        it("should verify signature over body only without tolerance", () => {
+            const verification = verifySignature({ "x-auth": sign(body) }, body,
+                { hmac: { secret: "secret", header: "X-Auth", tolerance: 0 } }, now);
+            assert(verification.verified);
+        });
+
+    });
+
+});
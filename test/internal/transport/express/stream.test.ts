@@ -0,0 +1,80 @@
+import "mocha";
+import * as assert from "power-assert";
+import {
+    invocationStream,
+    streamFormat,
+    streamInvocation,
+} from "../../../../lib/internal/transport/express/stream";
+import { CommandIncoming } from "../../../../lib/internal/transport/RequestProcessor";
+
+describe("stream", () => {
+
+    const response = () => {
+        const res: any = {
+            headers: {},
+            chunks: [],
+            ended: false,
+            status: (code: number) => res.code = code,
+            setHeader: (name: string, value: string) => res.headers[name] = value,
+            on: () => res,
+            flushHeaders: () => { /* intentionally empty */ },
+            write: (chunk: string) => res.chunks.push(chunk),
+            end: () => res.ended = true,
+        };
+        return res;
+    };
+
+    describe("streamFormat", () => {
+
+        const request = (accept: string, query: any = {}) => ({ query, get: () => accept }) as any;
+
+        it("should detect stream format from Accept header", () => {
+            assert(streamFormat(request("text/event-stream")) === "sse");
+            assert(streamFormat(request("application/x-ndjson")) === "ndjson");
+            assert(streamFormat(request("application/json")) === undefined);
+        });
+
+        it("should detect stream format from query parameter", () => {
+            assert(streamFormat(request("application/json", { stream: "ndjson" })) === "ndjson");
+        });
+
+    });
+
+    describe("streamInvocation", () => {
+
+        it("should stream messages and result as NDJSON", () => {
+            const res = response();
+            const command = { command: "HelloWorld" } as any as CommandIncoming;
+            const end = streamInvocation(command, res, "ndjson");
+            assert(!!command.correlation_id);
+            assert(res.headers["Content-Type"] === "application/x-ndjson");
+
+            invocationStream(command).message("Hello", { team: "T1" } as any);
+            end({ code: 0 });
+
+            assert.deepStrictEqual(res.chunks.map(c => JSON.parse(c)), [
+                { type: "message", message: "Hello", destinations: { team: "T1" } },
+                { type: "result", result: { code: 0 } },
+            ]);
+            assert(res.ended);
+            assert(invocationStream(command) === undefined);
+        });
+
+        it("should stream messages and result as Server-Sent Events", () => {
+            const res = response();
+            const command = { command: "HelloWorld", correlation_id: "c1" } as any as CommandIncoming;
+            const end = streamInvocation(command, res, "sse");
+            assert(command.correlation_id === "c1");
+
+            invocationStream(command).message("Hello");
+            end({ code: 0 });
+
+            assert.deepStrictEqual(res.chunks, [
+                `event: message\ndata: {"message":"Hello"}\n\n`,
+                `event: result\ndata: {"result":{"code":0}}\n\n`,
+            ]);
+        });
+
+    });
+
+});
@@ -0,0 +1,44 @@
+import "mocha";
+import * as assert from "power-assert";
+import { invocationPriority } from "../../../lib/internal/transport/priority";
+import {
+    CommandIncoming,
+    EventIncoming,
+} from "../../../lib/internal/transport/RequestProcessor";
+import {
+    CommandHandlerMetadata,
+    EventHandlerMetadata,
+} from "../../../lib/metadata/automationMetadata";
+
+describe("priority", () => {
+
+    describe("invocationPriority", () => {
+
+        const command = { command: "HelloWorld" } as any as CommandIncoming;
+        const event = { data: {}, extensions: { operationName: "OnPush" } } as any as EventIncoming;
+        const automations = (commands: CommandHandlerMetadata[], events: EventHandlerMetadata[] = []) =>
+            ({ automations: { commands, events } }) as any;
+
+        it("should use the priority declared on the command handler", () => {
+            const priority = invocationPriority(command,
+                automations([{ name: "HelloWorld", description: "", priority: 5 }]));
+            assert(priority === 5);
+        });
+
+        it("should default to 0 without declared priority", () => {
+            const priority = invocationPriority(command, automations([{ name: "HelloWorld", description: "" }]));
+            assert(priority === 0);
+        });
+
+        it("should use the highest priority of event handlers sharing a subscription", () => {
+            const priority = invocationPriority(event, automations([], [
+                { name: "A", description: "", subscription: "", subscriptionName: "OnPush", priority: -1 },
+                { name: "B", description: "", subscription: "", subscriptionName: "OnPush", priority: 2 },
+                { name: "C", description: "", subscription: "", subscriptionName: "OnIssue", priority: 10 },
+            ]));
+            assert(priority === 2);
+        });
+
+    });
+
+});
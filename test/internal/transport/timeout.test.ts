@@ -0,0 +1,56 @@
+import "mocha";
+import * as assert from "power-assert";
+import { ConfigurableCommandHandler } from "../../../lib/decorators";
+import { metadataFromInstance } from "../../../lib/internal/metadata/metadataReading";
+import { CommandIncoming } from "../../../lib/internal/transport/RequestProcessor";
+import { invocationTimeout } from "../../../lib/internal/transport/timeout";
+import { CommandHandlerMetadata } from "../../../lib/metadata/automationMetadata";
+
+describe("timeout", () => {
+
+    describe("invocationTimeout", () => {
+
+        const command = { command: "HelloWorld" } as any as CommandIncoming;
+        const automations = (commands: CommandHandlerMetadata[]) => ({ automations: { commands, events: [] } }) as any;
+
+        it("should use the timeout declared on the handler", () => {
+            const timeout = invocationTimeout(command,
+                automations([{ name: "HelloWorld", description: "", timeout: 2000 }]), { timeout: { default: 1000 } });
+            assert(timeout === 2000);
+        });
+
+        it("should prefer the configured timeout", () => {
+            const timeout = invocationTimeout(command,
+                automations([{ name: "HelloWorld", description: "", timeout: 2000 }]),
+                { timeout: { handlers: { HelloWorld: 3000 } } });
+            assert(timeout === 3000);
+        });
+
+        it("should fall back to the default timeout", () => {
+            const timeout = invocationTimeout(command,
+                automations([{ name: "HelloWorld", description: "" }]), { timeout: { default: 1000 } });
+            assert(timeout === 1000);
+        });
+
+        it("should disable the default timeout with a configured 0", () => {
+            const timeout = invocationTimeout(command,
+                automations([{ name: "HelloWorld", description: "", timeout: 2000 }]),
+                { timeout: { default: 1000, handlers: { HelloWorld: 0 } } });
+            assert(timeout === undefined);
+        });
+
+        it("should disable the default timeout with a declared 0", () => {
+            @ConfigurableCommandHandler("Wait for it", { timeout: 0 })
+            class HelloWorld {
+                public handle(): Promise<any> {
+                    return Promise.resolve();
+                }
+            }
+            const metadata = metadataFromInstance(new HelloWorld()) as CommandHandlerMetadata;
+            const timeout = invocationTimeout(command, automations([metadata]), { timeout: { default: 1000 } });
+            assert(timeout === undefined);
+        });
+
+    });
+
+});
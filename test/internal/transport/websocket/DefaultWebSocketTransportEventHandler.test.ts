@@ -63,7 +63,7 @@ describe("DefaultWebSocketRequestProcessor", () => {
                 endpoints: { api: "http://foo.com", graphql: "http://bar.com" },
                 ws: {
                     lifecycle: new QueuingWebSocketLifecycle(),
-                } as any,
+                },
                 graphql: { client: { factory: DefaultGraphClientFactory } },
             });
         listener.onRegistration({ url: "http://bla.com", jwt: "123456789", name: "goo", version: "1.0.0" });
@@ -143,7 +143,7 @@ function verifyCommandHandler(code: number, callback: (result) => void) {
             endpoints: { api: "http://foo.com", graphql: "http://bar.com" },
             ws: {
                 lifecycle: new QueuingWebSocketLifecycle(),
-            } as any,
+            },
             graphql: { client: { factory: DefaultGraphClientFactory } },
         });
     listener.onRegistration({ url: "http://bla.com", jwt: "123456789", name: "goo", version: "1.0.0" });
@@ -0,0 +1,133 @@
+import * as fs from "fs-extra";
+import "mocha";
+import * as p from "path";
+import * as assert from "power-assert";
+import * as tmp from "tmp-promise";
+import * as WebSocket from "ws";
+import {
+    QueuingWebSocketLifecycle,
+    webSocketQueueOptions,
+} from "../../../../lib/internal/transport/websocket/WebSocketLifecycle";
+
+describe("WebSocketLifecycle", () => {
+
+    class MockWebSocket {
+        public readyState: number = WebSocket.OPEN;
+        public sent: any[] = [];
+
+        public send(data: any): void {
+            this.sent.push(JSON.parse(data));
+        }
+    }
+
+    describe("webSocketQueueOptions", () => {
+
+        it("should not spool by default", () => {
+            const options = webSocketQueueOptions({ name: "foo", ws: { queue: { maxSize: 10 } } });
+            assert(options.maxSize === 10);
+            assert(options.spool === undefined);
+        });
+
+        it("should default spool file to application name", () => {
+            const options = webSocketQueueOptions({
+                name: "foo",
+                ws: { queue: { spool: { enabled: true, directory: "/tmp/spool" } } },
+            });
+            assert(options.spool === p.join("/tmp/spool", "foo.log"));
+        });
+    });
+
+    describe("QueuingWebSocketLifecycle", () => {
+
+        it("should send directly when connected", async () => {
+            const lifecycle = new QueuingWebSocketLifecycle();
+            const ws = new MockWebSocket();
+            lifecycle.set(ws as any);
+            await lifecycle.send({ id: 1 });
+            assert.deepStrictEqual(ws.sent, [{ id: 1 }]);
+            assert(lifecycle.size() === 0);
+        });
+
+        it("should queue while disconnected and send in order after connecting", async () => {
+            const lifecycle = new QueuingWebSocketLifecycle();
+            await lifecycle.send({ id: 1 });
+            await lifecycle.send({ id: 2 });
+            assert(lifecycle.size() === 2);
+            const ws = new MockWebSocket();
+            lifecycle.set(ws as any);
+            await lifecycle.send({ id: 3 });
+            assert.deepStrictEqual(ws.sent, [{ id: 1 }, { id: 2 }, { id: 3 }]);
+            assert(lifecycle.size() === 0);
+        });
+
+        it("should drop oldest message when full", async () => {
+            const lifecycle = new QueuingWebSocketLifecycle({ maxSize: 2 });
+            await lifecycle.send({ id: 1 });
+            await lifecycle.send({ id: 2 });
+            await lifecycle.send({ id: 3 });
+            const ws = new MockWebSocket();
+            lifecycle.set(ws as any);
+            await lifecycle.send({ id: 4 });
+            assert.deepStrictEqual(ws.sent, [{ id: 2 }, { id: 3 }, { id: 4 }]);
+        });
+
+        it("should drop newest message when full", async () => {
+            const lifecycle = new QueuingWebSocketLifecycle({ maxSize: 2, overflow: "dropNewest" });
+            await lifecycle.send({ id: 1 });
+            await lifecycle.send({ id: 2 });
+            await lifecycle.send({ id: 3 });
+            const ws = new MockWebSocket();
+            lifecycle.set(ws as any);
+            await lifecycle.send({ id: 4 });
+            assert.deepStrictEqual(ws.sent, [{ id: 1 }, { id: 2 }, { id: 4 }]);
+        });
+
+        it("should block senders until the queue drains", async () => {
+            const lifecycle = new QueuingWebSocketLifecycle({ maxSize: 1, overflow: "block" });
+            await lifecycle.send({ id: 1 });
+            let queued = false;
+            const blocked = lifecycle.send({ id: 2 }).then(() => queued = true);
+            await Promise.resolve();
+            assert(!queued);
+            assert(lifecycle.size() === 2);
+            const ws = new MockWebSocket();
+            lifecycle.set(ws as any);
+            await lifecycle.send({ id: 3 });
+            await blocked;
+            assert(queued);
+            assert.deepStrictEqual(ws.sent, [{ id: 1 }, { id: 2 }, { id: 3 }]);
+        });
+
+        it("should drop messages older than max age", async () => {
+            const lifecycle = new QueuingWebSocketLifecycle({ maxAge: 20 });
+            await lifecycle.send({ id: 1 });
+            await new Promise<void>(resolve => setTimeout(resolve, 50));
+            await lifecycle.send({ id: 2 });
+            const ws = new MockWebSocket();
+            lifecycle.set(ws as any);
+            await lifecycle.send({ id: 3 });
+            assert.deepStrictEqual(ws.sent, [{ id: 2 }, { id: 3 }]);
+        });
+
+        it("should restore spooled messages after restart", async () => {
+            const dir = await tmp.dir({ unsafeCleanup: true });
+            try {
+                const spool = p.join(dir.path, "spool", "foo.log");
+                const before = new QueuingWebSocketLifecycle({ spool });
+                await before.send({ id: 1 });
+                await before.send({ id: 2 });
+                assert(fs.existsSync(spool));
+
+                const after = new QueuingWebSocketLifecycle({ spool });
+                assert(after.size() === 2);
+                const ws = new MockWebSocket();
+                after.set(ws as any);
+                await after.send({ id: 3 });
+                assert.deepStrictEqual(ws.sent, [{ id: 1 }, { id: 2 }, { id: 3 }]);
+                assert(fs.readFileSync(spool, "utf8") === "");
+            } finally {
+                dir.cleanup();
+            }
+        });
+    });
+});
@@ -0,0 +1,58 @@
+import "mocha";
+import * as assert from "power-assert";
+import { ReconnectStrategy } from "../../../../lib/internal/transport/websocket/reconnect";
+import { HealthStatus } from "../../../../lib/internal/util/health";
+
+describe("reconnect", () => {
+
+    describe("ReconnectStrategy", () => {
+
+        it("should not delay first attempt", () => {
+            const strategy = new ReconnectStrategy();
+            assert(strategy.delay() === 0);
+        });
+
+        it("should back off exponentially up to max timeout", () => {
+            const strategy = new ReconnectStrategy({ factor: 2, minTimeout: 100, maxTimeout: 500, jitter: 0 });
+            const delays = [];
+            for (let i = 0; i < 5; i++) {
+                strategy.failure();
+                delays.push(strategy.delay());
+            }
+            assert.deepStrictEqual(delays, [100, 200, 400, 500, 500]);
+        });
+
+        it("should shorten delays by jitter", () => {
+            const strategy = new ReconnectStrategy({ factor: 2, minTimeout: 1000, jitter: 0.5 }, () => 0.5);
+            strategy.failure();
+            assert(strategy.delay() === 750);
+        });
+
+        it("should open circuit after max attempts and report down", () => {
+            const strategy = new ReconnectStrategy({ maxAttempts: 3, maxTimeout: 5000, jitter: 0 });
+            strategy.failure(new Error("ECONNREFUSED"));
+            strategy.failure(new Error("ECONNREFUSED"));
+            assert(!strategy.open);
+            assert(strategy.health().status === HealthStatus.Up);
+            strategy.failure(new Error("ECONNREFUSED"), 1000);
+            assert(strategy.open);
+            assert(strategy.delay() === 5000);
+            const h = strategy.health();
+            assert(h.status === HealthStatus.Down);
+            assert(h.detail.failures === 3);
+            assert(h.detail.error === "ECONNREFUSED");
+            assert(h.detail.since === new Date(1000).toISOString());
+        });
+
+        it("should close circuit on success", () => {
+            const strategy = new ReconnectStrategy({ maxAttempts: 1 });
+            strategy.failure("failed");
+            assert(strategy.health().status === HealthStatus.Down);
+            strategy.success();
+            assert(!strategy.open);
+            assert(strategy.failures === 0);
+            assert(strategy.delay() === 0);
+            assert(strategy.health().status === HealthStatus.Up);
+        });
+    });
+});
@@ -0,0 +1,71 @@
+import "mocha";
+import * as assert from "power-assert";
+import {
+    changedPaths,
+    configurationData,
+    leafPaths,
+    ProvenanceRecorder,
+} from "../../../lib/internal/util/configurationData";
+
+describe("configurationData", () => {
+
+    describe("configurationData", () => {
+
+        it("should keep data and drop code", () => {
+            class Factory {
+                public name: string = "factory";
+            }
+            const data = configurationData({
+                name: "foo",
+                patterns: [/a+/g],
+                factory: new Factory(),
+                customizers: [() => undefined],
+            });
+            assert.deepStrictEqual(data, { name: "foo", patterns: ["/a+/g"], factory: undefined, customizers: [undefined] });
+        });
+    });
+
+    describe("changedPaths", () => {
+
+        it("should return paths of changed leaves and arrays", () => {
+            const paths = changedPaths(
+                { http: { port: 2866, host: "localhost" }, workspaceIds: ["T1"] },
+                { http: { port: 2867, host: "localhost" }, workspaceIds: ["T1", "T2"], custom: { foo: "bar" } });
+            assert.deepStrictEqual(paths, ["custom", "http.port", "workspaceIds"]);
+        });
+    });
+
+    describe("leafPaths", () => {
+
+        it("should return paths of defined leaves", () => {
+            assert.deepStrictEqual(leafPaths({ b: { d: 1, c: undefined }, a: [1, 2] }), ["a", "b.d"]);
+        });
+    });
+
+    describe("ProvenanceRecorder", () => {
+
+        it("should attribute values to the source that set them last", () => {
+            const recorder = new ProvenanceRecorder();
+            const cfg: any = { name: "foo", http: { port: 2866, host: "localhost" } };
+            recorder.record(cfg, "defaults");
+            cfg.http.port = 2867;
+            cfg.custom = { foo: "${BAR}" };
+            recorder.record(cfg, "atomist.config.js");
+            cfg.custom.foo = "bar";
+            recorder.record(cfg, (path, previous) => `${previous}, placeholder resolved`);
+            assert.deepStrictEqual(recorder.provenance, {
+                "name": "defaults",
+                "http.host": "defaults",
+                "http.port": "atomist.config.js",
+                "custom.foo": "atomist.config.js, placeholder resolved",
+            });
+        });
+
+        it("should forget removed values", () => {
+            const recorder = new ProvenanceRecorder();
+            recorder.record({ http: { port: 2866 } }, "defaults");
+            recorder.record({ http: "off" }, "override");
+            assert.deepStrictEqual(recorder.provenance, { http: "override" });
+        });
+    });
+});
@@ -0,0 +1,47 @@
+import "mocha";
+import * as assert from "power-assert";
+import {
+    duration,
+    increment,
+    prometheusMetrics,
+} from "../../../lib/internal/util/metric";
+
+describe("metric", () => {
+
+    describe("prometheusMetrics", () => {
+
+        it("should render counters", () => {
+            increment("test_cache.reuse");
+            increment("test_cache.reuse");
+            const text = prometheusMetrics();
+            assert(text.includes("# TYPE test_cache_reuse_total counter\ntest_cache_reuse_total 2\n"));
+        });
+
+        it("should render unlabelled timers as summaries", () => {
+            duration("test_timer.unlabelled", 10);
+            duration("test_timer.unlabelled", 20);
+            const text = prometheusMetrics();
+            assert(text.includes("# TYPE test_timer_unlabelled_milliseconds summary"));
+            assert(text.includes("test_timer_unlabelled_milliseconds_sum 30\n"));
+            assert(text.includes("test_timer_unlabelled_milliseconds_count 2\n"));
+        });
+
+        it("should render labelled timers as summaries", () => {
+            duration("test_handler.HelloWorld.success", 10);
+            duration("test_handler", 10, { handler: "HelloWorld", workspace: "T123", outcome: "success" });
+            duration("test_handler", 30, { handler: "HelloWorld", workspace: "T123", outcome: "success" });
+            duration("test_handler", 5, { handler: "Say \"Hi\"", workspace: "T123", outcome: "failure" });
+            const text = prometheusMetrics();
+            assert(text.includes("# TYPE test_handler_milliseconds summary"));
+            assert(text.includes(
+                `test_handler_milliseconds_count{handler="HelloWorld",outcome="success",workspace="T123"} 2`));
+            assert(text.includes(
+                `test_handler_milliseconds_sum{handler="HelloWorld",outcome="success",workspace="T123"} 40`));
+            assert(text.includes(
+                `test_handler_milliseconds{handler="Say \\"Hi\\"",outcome="failure",quantile="0.5",workspace="T123"} 5`));
+            assert(!text.includes("test_handler_HelloWorld_success"));
+        });
+
+    });
+
+});
@@ -13,6 +13,15 @@ export const BitBucketServerCredentials: BasicAuthCredentials = {
 
 describe("BitBucketServer support", () => {
 
+    let mock: MockAdapter;
+
+    afterEach(() => {
+        if (mock) {
+            mock.restore();
+            mock = undefined;
+        }
+    });
+
     describe("should return correct clone url", () => {
         it("for project", () => {
             const bitbucketServerRepoRef = new BitBucketServerRepoRef("https://bitbucket.organisation.co.za", "a-project", "test-app");
@@ -38,7 +47,7 @@ describe("BitBucketServer support", () => {
     });
 
     it("should create repo", () => {
-        const mock = new MockAdapter(axios);
+        mock = new MockAdapter(axios);
 
         mock.onPost("https://bitbucket.organisation.co.za/rest/api/1.0/projects/a-project/repos/")
             .reply(config => {
@@ -54,7 +63,7 @@ describe("BitBucketServer support", () => {
     });
 
     it("should delete repo", () => {
-        const mock = new MockAdapter(axios);
+        mock = new MockAdapter(axios);
 
         mock.onDelete("https://bitbucket.organisation.co.za/rest/api/1.0/projects/a-project/repos/test-app")
             .reply(202, {});
@@ -64,7 +73,7 @@ describe("BitBucketServer support", () => {
     });
 
     it("should create pr", () => {
-        const mock = new MockAdapter(axios);
+        mock = new MockAdapter(axios);
 
         mock.onPost("https://bitbucket.organisation.co.za/rest/api/1.0/projects/a-project/repos/test-app/pull-requests")
             .reply(config => {
@@ -15,13 +15,22 @@ import { HttpMethod } from "../../../lib/spi/http/httpClient";
 
 describe("axiosHttpClient", () => {
 
+    let mock: MockAdapter;
+
+    afterEach(() => {
+        if (mock) {
+            mock.restore();
+            mock = undefined;
+        }
+    });
+
     const noRetries = {
         retries: 0,
     };
 
     it("should exchange simple get", async () => {
         const url = "http://somewhere.com/foo/bar.html";
-        const mock = new MockAdapter(axios);
+        mock = new MockAdapter(axios);
         mock.onGet(url).replyOnce(200, "foo and bar");
 
         const hcf = new AxiosHttpClientFactory();
@@ -36,7 +45,7 @@ describe("axiosHttpClient", () => {
         const url = "http://api.elsewhere.com/foo";
         const payload = { blupp: "bla" };
         let posted = false;
-        const mock = new MockAdapter(axios);
+        mock = new MockAdapter(axios);
         mock.onPut(url, payload).replyOnce(config => {
             posted = true;
             assert(config.headers["Content-Type"] === "application/json");
@@ -62,7 +71,7 @@ describe("axiosHttpClient", () => {
         const url = "http://api.nowhere.com/foo";
         const payload = { blupp: "bla" };
         let posted = false;
-        const mock = new MockAdapter(axios);
+        mock = new MockAdapter(axios);
         mock.onPost(url, payload).replyOnce(config => {
             posted = true;
             assert(config.headers["Content-Type"] === "application/json");
@@ -0,0 +1,137 @@
+import "mocha";
+import * as assert from "power-assert";
+import { AutomationClient } from "../../lib/automationClient";
+import { ApolloGraphClientFactory } from "../../lib/graph/ApolloGraphClientFactory";
+import { SelfDescribingHandleCommand } from "../../lib/HandleCommand";
+import { DefaultWebSocketRequestProcessor } from "../../lib/internal/transport/websocket/DefaultWebSocketRequestProcessor";
+import { prepareRegistration } from "../../lib/internal/transport/websocket/payloads";
+import { WebSocketClient } from "../../lib/internal/transport/websocket/WebSocketClient";
+import { QueuingWebSocketLifecycle } from "../../lib/internal/transport/websocket/WebSocketLifecycle";
+import {
+    DefaultHttpClientFactory,
+    HttpMethod,
+} from "../../lib/spi/http/httpClient";
+import { WSWebSocketFactory } from "../../lib/spi/http/wsClient";
+import { FakeAutomationApi } from "../../lib/testing/FakeAutomationApi";
+
+describe("FakeAutomationApi", () => {
+
+    let api: FakeAutomationApi;
+    let webSocketClient: WebSocketClient;
+    let runningClient: any;
+
+    beforeEach(async () => {
+        api = new FakeAutomationApi({ timeout: 5000 });
+        await api.start();
+        runningClient = (global as any).__runningAutomationClient;
+    });
+
+    afterEach(async () => {
+        if (webSocketClient) {
+            await webSocketClient.stop();
+            webSocketClient = undefined;
+        }
+        (global as any).__runningAutomationClient = runningClient;
+        await api.stop();
+    });
+
+    async function connectClient(): Promise<void> {
+        const configuration = {
+            ...api.configuration(),
+            name: "fake-test",
+            version: "1.0.0",
+            ws: {
+                client: { factory: new WSWebSocketFactory() },
+                lifecycle: new QueuingWebSocketLifecycle(),
+            },
+            graphql: { client: { factory: new ApolloGraphClientFactory() } },
+            http: { client: { factory: DefaultHttpClientFactory } },
+        };
+        const hello: SelfDescribingHandleCommand<any> = {
+            name: "HelloWorld",
+            description: "Say hello",
+            parameters: [{ name: "name", required: true }],
+            tags: [],
+            intent: [],
+            mapped_parameters: [],
+            handle: async (ctx, params) => {
+                const result = await ctx.graphClient.query<any, any>({ query: "query Name { Person { name } }" });
+                await ctx.messageClient.respond(`Hello ${params.name}, aka ${result.Person.name}`);
+                return { code: 0 };
+            },
+        };
+        const client = new AutomationClient(configuration).withCommandHandler(() => hello);
+        webSocketClient = new WebSocketClient(
+            () => prepareRegistration(client.automations.automations),
+            configuration,
+            new DefaultWebSocketRequestProcessor(client.automations, configuration));
+        await webSocketClient.start();
+        await api.waitForConnection();
+    }
+
+    it("should reject registration without API key", async () => {
+        try {
+            await DefaultHttpClientFactory.create().exchange(api.configuration().endpoints.api, {
+                method: HttpMethod.Post,
+                body: { name: "fake-test", version: "1.0.0" },
+                retry: { retries: 0 },
+            });
+            assert.fail();
+        } catch (e) {
+            assert(e.response.status === 401);
+        }
+    });
+
+    it("should record registration and invoke command handler", async () => {
+        api.onGraphQL(request => {
+            assert(request.operationName === "Name");
+            return { Person: { name: "Joe" } };
+        });
+        await connectClient();
+        assert(api.registrations.length === 1);
+        assert(api.registrations[0].name === "fake-test");
+        assert(api.registrations[0].commands[0].name === "HelloWorld");
+
+        const status = await api.invokeCommand("HelloWorld", { name: "Joseph" });
+        assert(status.status.code === 0);
+        assert(status.command === "HelloWorld");
+
+        const message = await api.waitForMessage(m => m.correlation_id === status.correlation_id);
+        assert(message.body === "Hello Joseph, aka Joe");
+        assert(api.queries.length === 1);
+        assert(api.queries[0].workspaceId === "T1234567");
+    });
+
+    it("should report failing command handler status", async () => {
+        await connectClient();
+        const status = await api.invokeCommand("HelloWorld");
+        assert(status.status.code !== 0);
+    });
+
+    it("should raise event and return its status", async () => {
+        await connectClient();
+        const status = await api.raiseEvent("PushToMaster", { Push: [{ sha: "abc" }] });
+        assert(status.event === "PushToMaster");
+        assert(status.status.reason.includes("PushToMaster"));
+    });
+
+    it("should invoke command handler after the client reconnected", async () => {
+        api.onGraphQL(() => ({ Person: { name: "Joe" } }));
+        await connectClient();
+        api.disconnect();
+        await api.waitForConnection();
+        assert(api.registrations.length === 2);
+
+        const status = await api.invokeCommand("HelloWorld", { name: "Joseph" });
+        assert(status.status.code === 0);
+    });
+
+    it("should reject invocations without connected client", async () => {
+        try {
+            await api.invokeCommand("HelloWorld");
+            assert.fail();
+        } catch (e) {
+            assert(e.message === "No client connected to fake automation API");
+        }
+    });
+});
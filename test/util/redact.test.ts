@@ -4,6 +4,7 @@ import { DEFAULT_REDACTION_PATTERNS } from "../../lib/configuration";
 import {
     addRedaction,
     redactLog,
+    removeRedaction,
 } from "../../lib/util/redact";
 // tslint:disable-next-line:no-var-requires
 require("../../lib/operations/common/AbstractRemoteRepoRef.ts");
@@ -42,6 +43,14 @@ describe("util/redact", () => {
                 "The groups should have been redacted");
         });
 
+        it("stops redacting removed things", () => {
+            const regexp = /sn0tt+y/g;
+            addRedaction(regexp);
+            assert.strictEqual(redactLog({ level: "info", message: "sn0ttty" }).message, "[REDACTED]");
+            removeRedaction(regexp);
+            assert.strictEqual(redactLog({ level: "info", message: "sn0ttty" }).message, "sn0ttty");
+        });
+
         it("prints ordinary stuff", () => {
             const l: TransformableInfo = {
                 level: "info",
@@ -0,0 +1,112 @@
+import "mocha";
+import * as assert from "power-assert";
+import { HandlerContext } from "../../lib/HandlerContext";
+import { CommandInvocation } from "../../lib/internal/invoker/Payload";
+import * as namespace from "../../lib/internal/util/cls";
+import {
+    Span,
+    SpanExporter,
+    traced,
+    TracingAutomationEventListener,
+} from "../../lib/util/tracing";
+
+describe("util/tracing", () => {
+
+    const context: namespace.AutomationContext = {
+        correlationId: "tracing-c1",
+        workspaceId: "T123",
+        workspaceName: "Test",
+        operation: "HelloWorld",
+        name: "@atomist/automation-client",
+        version: "1.0.0",
+        invocationId: "tracing-i1",
+        ts: Date.now(),
+    };
+    const ci: CommandInvocation = { name: "HelloWorld", args: [] };
+
+    class CollectingSpanExporter implements SpanExporter {
+        public spans: Span[] = [];
+
+        public export(spans: Span[]): Promise<void> {
+            this.spans.push(...spans);
+            return Promise.resolve();
+        }
+    }
+
+    function inContext(fn: () => Promise<void>): Promise<void> {
+        return new Promise<void>((resolve, reject) => {
+            namespace.create().run(() => {
+                namespace.set(context);
+                fn().then(resolve, reject);
+            });
+        });
+    }
+
+    it("should record child spans of a command invocation", async () => {
+        const exporter = new CollectingSpanExporter();
+        const listener = new TracingAutomationEventListener(exporter);
+        const ctx = { context } as any as HandlerContext;
+
+        await inContext(async () => {
+            listener.commandStarting(ci, ctx);
+            await traced("GET http://localhost", "http", {}, async () => "ok");
+            try {
+                await traced("spawn git", "spawn", {}, async () => {
+                    throw new Error("boom");
+                });
+            } catch (e) {
+                // expected
+            }
+            await listener.commandSuccessful(ci, ctx, { code: 0 });
+        });
+
+        assert(exporter.spans.length === 3);
+        const [root, http, spawn] = exporter.spans;
+        assert(root.name === "HelloWorld");
+        assert(root.kind === "command");
+        assert(root.status === "ok");
+        assert(root.correlationId === "tracing-c1");
+        assert(http.parentSpanId === root.spanId);
+        assert(http.traceId === root.traceId);
+        assert(http.status === "ok");
+        assert(spawn.status === "error");
+        assert(spawn.attributes.error === "boom");
+    });
+
+    it("should pass a copy of the options with the module of the caller to the graph client", async () => {
+        const exporter = new CollectingSpanExporter();
+        const listener = new TracingAutomationEventListener(exporter);
+        const received: any[] = [];
+        const ctx = {
+            context,
+            graphClient: {
+                endpoint: "http://localhost/graphql",
+                query: async (o: any) => received.push(o),
+                mutate: async (o: any) => received.push(o),
+            },
+        } as any as HandlerContext;
+        const options = { name: "Repos" };
+
+        await inContext(async () => {
+            listener.commandStarting(ci, ctx);
+            await ctx.graphClient.query(options);
+            await ctx.graphClient.mutate("AddLabel");
+            await listener.commandSuccessful(ci, ctx, { code: 0 });
+        });
+
+        assert.deepStrictEqual(options, { name: "Repos" });
+        assert.deepStrictEqual(received, [
+            { name: "Repos", moduleDir: __filename },
+            { name: "AddLabel", moduleDir: __filename },
+        ]);
+    });
+
+    it("should not record spans outside of an invocation", async () => {
+        const result = await traced("GET http://localhost", "http", {}, async span => {
+            assert(!span);
+            return "ok";
+        });
+        assert(result === "ok");
+    });
+
+});